@@ -0,0 +1,5 @@
+-- Summaries written by finished jobs, such as the rows an attribution repair
+-- moved. Safe to run more than once.
+
+alter table job_queue
+  add column if not exists result jsonb;
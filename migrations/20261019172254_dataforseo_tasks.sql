@@ -0,0 +1,12 @@
+-- DataForSEO tasks posted by workers, with their results once the callback or a
+-- poll delivered them. Safe to run more than once.
+
+create table if not exists dataforseo_tasks (
+  task_id text primary key,
+  endpoint text,
+  queue_job_id uuid references job_queue (id) on delete set null,
+  status text not null default 'pending',
+  task jsonb,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
@@ -0,0 +1,4 @@
+-- Import progress a reclaimed job resumes from. Safe to run more than once.
+
+alter table job_queue
+  add column if not exists checkpoint jsonb;
@@ -0,0 +1,24 @@
+-- Retry scheduling and attempt history. Safe to run more than once.
+
+-- New job_queue statuses: retry_scheduled, and cancelling and cancelled from job
+-- cancellation. If job_queue.status has a check constraint, it has to allow them.
+
+alter table job_queue
+  add column if not exists run_at timestamptz,
+  add column if not exists claimed_at timestamptz;
+
+-- One row per failed attempt
+create table if not exists job_attempts (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references job_queue (id) on delete cascade,
+  attempt integer not null,
+  worker_id text,
+  started_at timestamptz,
+  finished_at timestamptz,
+  error_message text,
+  error_details jsonb,
+  retryable boolean not null default true
+);
+
+create index if not exists job_attempts_job_id_idx
+  on job_attempts (job_id, attempt);
@@ -0,0 +1,24 @@
+-- Dead-letter queue of jobs out of attempts. Safe to run more than once.
+
+-- New job_queue statuses: dead_letter and discarded. If job_queue.status has a
+-- check constraint, it has to allow them.
+
+create table if not exists dead_letter_jobs (
+  job_id uuid primary key references job_queue (id) on delete cascade,
+  user_id uuid,
+  job_type text not null,
+  payload jsonb,
+  error_class text not null,
+  error_message text,
+  error_chain jsonb,
+  attempts integer not null default 0,
+  job_created_at timestamptz,
+  dead_lettered_at timestamptz not null default now(),
+  -- Null while unresolved, then requeued or discarded
+  resolution text,
+  resolved_at timestamptz
+);
+
+create index if not exists dead_letter_jobs_unresolved_idx
+  on dead_letter_jobs (error_class, job_type)
+  where resolution is null;
@@ -0,0 +1,7 @@
+-- Job claims with a lease. Safe to run more than once.
+
+-- New job_queue status: claimed. If job_queue.status has a check constraint, it
+-- has to allow it.
+
+alter table job_queue
+  add column if not exists claim_expires_at timestamptz;
@@ -0,0 +1,9 @@
+-- Delayed jobs. Safe to run more than once.
+
+-- New job_queue status: scheduled. If job_queue.status has a check constraint, it
+-- has to allow it.
+
+-- Delayed jobs and retries that JobClaimer.promoteDueJobs makes pending once due
+create index if not exists job_queue_run_at_idx
+  on job_queue (run_at)
+  where status in ('scheduled', 'retry_scheduled');
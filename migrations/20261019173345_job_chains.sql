@@ -0,0 +1,10 @@
+-- Follow-up jobs and the workflows they form. Safe to run more than once.
+
+alter table job_queue
+  add column if not exists follow_ups jsonb,
+  add column if not exists parent_job_id uuid references job_queue (id) on delete set null,
+  add column if not exists workflow_id uuid;
+
+create index if not exists job_queue_workflow_id_idx
+  on job_queue (workflow_id)
+  where workflow_id is not null;
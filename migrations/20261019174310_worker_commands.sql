@@ -0,0 +1,12 @@
+-- Fleet commands from the admin API. Safe to run more than once.
+
+-- Drain or stop commands, read on each heartbeat
+alter table workers
+  add column if not exists commanded_state text not null default 'running',
+  add column if not exists commanded_at timestamptz;
+
+-- Job types no worker claims until they are resumed
+create table if not exists paused_job_types (
+  job_type text primary key,
+  paused_at timestamptz not null default now()
+);
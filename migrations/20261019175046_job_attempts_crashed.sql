@@ -0,0 +1,5 @@
+-- Attempts cut short by a dying worker or a timeout, counted to find poison jobs.
+-- Safe to run more than once.
+
+alter table job_attempts
+  add column if not exists crashed boolean not null default false;
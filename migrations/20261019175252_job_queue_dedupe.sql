@@ -0,0 +1,19 @@
+-- Idempotent job creation and one active import per listing. Safe to run more
+-- than once.
+
+alter table job_queue
+  add column if not exists idempotency_key text,
+  add column if not exists dedupe_key text;
+
+-- A retried create request with the same Idempotency-Key loses the insert race
+-- here and gets the original job back
+create unique index if not exists job_queue_idempotency_key_idx
+  on job_queue (user_id, idempotency_key)
+  where idempotency_key is not null;
+
+-- One queued or running import per operator and listing. The status list must
+-- match ACTIVE_JOB_STATUSES in src/api/JobAPI.ts.
+create unique index if not exists job_queue_active_dedupe_key_idx
+  on job_queue (dedupe_key)
+  where dedupe_key is not null
+    and status in ('pending', 'scheduled', 'retry_scheduled', 'claimed', 'processing');
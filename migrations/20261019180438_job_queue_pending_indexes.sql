@@ -0,0 +1,10 @@
+-- Candidate windows of JobClaimer: most urgent first, and longest waiting first.
+-- Safe to run more than once.
+
+create index if not exists job_queue_pending_priority_idx
+  on job_queue (priority, created_at)
+  where status = 'pending';
+
+create index if not exists job_queue_pending_created_at_idx
+  on job_queue (created_at)
+  where status = 'pending';
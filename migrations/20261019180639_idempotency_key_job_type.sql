@@ -0,0 +1,8 @@
+-- Idempotency-Keys are scoped to the operator and job type, so reusing one on
+-- another endpoint creates a new job.
+
+drop index if exists job_queue_idempotency_key_idx;
+
+create unique index job_queue_idempotency_key_idx
+  on job_queue (user_id, job_type, idempotency_key)
+  where idempotency_key is not null;
@@ -0,0 +1,292 @@
+import { Request, Response } from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from '../utils/Logger';
+import { DeadLetterQueue, DeadLetterSelection } from '../services/DeadLetterQueue';
+import { WorkerCommandedState, WorkerFleet } from '../services/WorkerFleet';
+import { JobHandlerRegistry } from '../handlers/JobHandlerRegistry';
+import { JOB_ERROR_CLASSES } from '../utils/JobErrors';
+
+export class AdminAPI {
+  private supabase: SupabaseClient;
+  private logger = Logger.getInstance();
+  private deadLetterQueue: DeadLetterQueue;
+  private workerFleet: WorkerFleet;
+  private jobHandlers = JobHandlerRegistry.getInstance();
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+    this.deadLetterQueue = new DeadLetterQueue(supabase);
+    this.workerFleet = new WorkerFleet(supabase);
+  }
+
+  // GET /api/admin/dead-letter - List dead-lettered jobs
+  public listDeadLetterJobs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errorClass = req.query.error_class as string | undefined;
+      const jobType = req.query.job_type as string | undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      if (errorClass && !(JOB_ERROR_CLASSES as readonly string[]).includes(errorClass)) {
+        res.status(400).json({
+          error: `Invalid error_class. Expected one of: ${JOB_ERROR_CLASSES.join(', ')}`
+        });
+        return;
+      }
+
+      const { jobs, total } = await this.deadLetterQueue.list({
+        ...(errorClass ? { error_class: errorClass } : {}),
+        ...(jobType ? { job_type: jobType } : {}),
+        include_resolved: req.query.include_resolved === 'true',
+        limit,
+        offset
+      });
+
+      res.json({
+        jobs,
+        total,
+        offset,
+        limit
+      });
+
+    } catch (error) {
+      this.logger.error('Error listing dead-lettered jobs:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  // POST /api/admin/dead-letter/requeue - Requeue dead-lettered jobs by id, error class or job type
+  public requeueDeadLetterJobs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const selection = this.parseSelection(req, res);
+      if (!selection) {
+        return;
+      }
+
+      const { requeued, conflicting } = await this.deadLetterQueue.requeue(selection);
+
+      res.json({
+        success: true,
+        requeued: requeued.length,
+        job_ids: requeued,
+        // Imports of a listing that already has an active job; they stay dead-lettered
+        conflicting_job_ids: conflicting
+      });
+
+    } catch (error) {
+      this.logger.error('Error requeueing dead-lettered jobs:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  // POST /api/admin/dead-letter/discard - Discard dead-lettered jobs by id, error class or job type
+  public discardDeadLetterJobs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const selection = this.parseSelection(req, res);
+      if (!selection) {
+        return;
+      }
+
+      const jobIds = await this.deadLetterQueue.discard(selection);
+
+      res.json({
+        success: true,
+        discarded: jobIds.length,
+        job_ids: jobIds
+      });
+
+    } catch (error) {
+      this.logger.error('Error discarding dead-lettered jobs:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  // POST /api/admin/dead-letter/import-failed - Move jobs left as failed into the dead-letter queue
+  public importFailedJobs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const limit = Math.min(parseInt(req.body?.limit) || 500, 5000);
+
+      const moved = await this.deadLetterQueue.importFailedJobs(limit);
+
+      res.json({
+        success: true,
+        moved
+      });
+
+    } catch (error) {
+      this.logger.error('Error importing failed jobs:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  // GET /api/admin/workers - List workers with the jobs they hold and the paused job types
+  public listWorkers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const [workers, pausedJobTypes] = await Promise.all([
+        this.workerFleet.listWorkers(req.query.include_offline === 'true'),
+        this.workerFleet.getPausedJobTypes()
+      ]);
+
+      res.json({
+        workers,
+        total: workers.length,
+        paused_job_types: pausedJobTypes
+      });
+
+    } catch (error) {
+      this.logger.error('Error listing workers:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  // POST /api/admin/workers/:id/drain - Stop claiming, fail readiness and release the jobs still running after the drain timeout
+  public drainWorker = async (req: Request, res: Response): Promise<void> => {
+    await this.commandWorker('draining', req, res);
+  };
+
+  // POST /api/admin/workers/:id/pause - Stop claiming new jobs
+  public pauseWorker = async (req: Request, res: Response): Promise<void> => {
+    await this.commandWorker('paused', req, res);
+  };
+
+  // POST /api/admin/workers/:id/resume - Resume claiming after a pause or drain
+  public resumeWorker = async (req: Request, res: Response): Promise<void> => {
+    await this.commandWorker('running', req, res);
+  };
+
+  // POST /api/admin/job-types/:jobType/pause - Stop every worker from claiming a job type
+  public pauseJobType = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { jobType } = req.params;
+      if (!this.isKnownJobType(jobType, res)) {
+        return;
+      }
+
+      await this.workerFleet.pauseJobType(jobType);
+
+      res.json({
+        success: true,
+        job_type: jobType,
+        paused: true
+      });
+
+    } catch (error) {
+      this.logger.error('Error pausing job type:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  // POST /api/admin/job-types/:jobType/resume - Let workers claim a paused job type again
+  public resumeJobType = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { jobType } = req.params;
+      if (!this.isKnownJobType(jobType, res)) {
+        return;
+      }
+
+      await this.workerFleet.resumeJobType(jobType);
+
+      res.json({
+        success: true,
+        job_type: jobType,
+        paused: false
+      });
+
+    } catch (error) {
+      this.logger.error('Error resuming job type:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  private async commandWorker(state: WorkerCommandedState, req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const found = await this.workerFleet.setCommandedState(id, state);
+      if (!found) {
+        res.status(404).json({
+          error: 'Worker not found'
+        });
+        return;
+      }
+
+      // Workers read their commanded state on the next heartbeat
+      res.status(202).json({
+        success: true,
+        worker_id: id,
+        commanded_state: state
+      });
+
+    } catch (error) {
+      this.logger.error(`Error setting worker to ${state}:`, error);
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private isKnownJobType(jobType: string | undefined, res: Response): jobType is string {
+    const jobTypes = this.jobHandlers.getJobTypes();
+    if (!jobType || !jobTypes.includes(jobType)) {
+      res.status(400).json({
+        error: `Unsupported job_type. Expected one of: ${jobTypes.join(', ')}`
+      });
+      return false;
+    }
+    return true;
+  }
+
+  // Bulk actions need at least one filter so an empty body can't touch the whole queue
+  private parseSelection(req: Request, res: Response): DeadLetterSelection | null {
+    const { job_ids, error_class, job_type } = req.body || {};
+
+    if (job_ids !== undefined && (!Array.isArray(job_ids) || job_ids.some((id: any) => typeof id !== 'string'))) {
+      res.status(400).json({
+        error: 'job_ids must be an array of job ids'
+      });
+      return null;
+    }
+
+    if (error_class !== undefined && !JOB_ERROR_CLASSES.includes(error_class)) {
+      res.status(400).json({
+        error: `Invalid error_class. Expected one of: ${JOB_ERROR_CLASSES.join(', ')}`
+      });
+      return null;
+    }
+
+    if (!job_ids?.length && !error_class && !job_type) {
+      res.status(400).json({
+        error: 'Provide job_ids, error_class or job_type'
+      });
+      return null;
+    }
+
+    return {
+      ...(job_ids?.length ? { job_ids } : {}),
+      ...(error_class ? { error_class } : {}),
+      ...(job_type ? { job_type } : {})
+    };
+  }
+}
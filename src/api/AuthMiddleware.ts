@@ -0,0 +1,105 @@
+import { timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Config } from '../config/Config';
+import { Logger } from '../utils/Logger';
+
+export interface AuthContext {
+  // Null for the service role, which isn't any one operator
+  userId: string | null;
+  isAdmin: boolean;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+// Read from app_metadata, which only the service role can write; user_metadata is user-editable
+const ADMIN_ROLE = 'admin';
+
+/**
+ * Verifies the Supabase access token in the Authorization header and sets req.auth.
+ * The service role key and users whose app_metadata.role is admin count as admins:
+ * they may act for any operator and reach the admin API. Everyone else only gets
+ * their own jobs, reviews and profile.
+ */
+export class AuthMiddleware {
+  private config = Config.getInstance();
+  private logger = Logger.getInstance();
+
+  constructor(private supabase: SupabaseClient) {}
+
+  public requireUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const auth = await this.authenticate(req, res);
+    if (!auth) {
+      return;
+    }
+
+    req.auth = auth;
+    next();
+  };
+
+  public requireAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const auth = await this.authenticate(req, res);
+    if (!auth) {
+      return;
+    }
+
+    if (!auth.isAdmin) {
+      res.status(403).json({
+        error: 'Admin access required'
+      });
+      return;
+    }
+
+    req.auth = auth;
+    next();
+  };
+
+  // Replies 401 and returns null when the request isn't authenticated
+  private async authenticate(req: Request, res: Response): Promise<AuthContext | null> {
+    const [scheme, token] = (req.get('Authorization') || '').split(' ');
+    if (scheme !== 'Bearer' || !token) {
+      res.status(401).json({
+        error: 'Missing bearer token'
+      });
+      return null;
+    }
+
+    if (this.isServiceRoleKey(token)) {
+      return { userId: null, isAdmin: true };
+    }
+
+    try {
+      const { data, error } = await this.supabase.auth.getUser(token);
+      if (error || !data.user) {
+        res.status(401).json({
+          error: 'Invalid or expired access token'
+        });
+        return null;
+      }
+
+      return {
+        userId: data.user.id,
+        isAdmin: data.user.app_metadata?.role === ADMIN_ROLE
+      };
+    } catch (error) {
+      this.logger.error('❌ Failed to verify access token:', error);
+      res.status(503).json({
+        error: 'Could not verify access token',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  private isServiceRoleKey(token: string): boolean {
+    const expected = Buffer.from(this.config.supabaseServiceKey);
+    const actual = Buffer.from(token);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Config } from '../config/Config';
+import { Logger } from '../utils/Logger';
+import { DataForSEOClient } from '../clients/DataForSEOClient';
+import { TaskResultStore } from '../services/TaskResultStore';
+
+export class DataForSEOCallbackAPI {
+  private config = Config.getInstance();
+  private logger = Logger.getInstance();
+  private taskResultStore: TaskResultStore;
+  private dataForSEOClient = new DataForSEOClient();
+
+  constructor(supabase: SupabaseClient) {
+    this.taskResultStore = new TaskResultStore(supabase);
+  }
+
+  // POST /api/dataforseo/postback - DataForSEO delivers finished task results
+  public handlePostback = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.verifyToken(req)) {
+        res.status(401).json({ error: 'Invalid callback token' });
+        return;
+      }
+
+      const tasks: any[] = Array.isArray(req.body?.tasks) ? req.body.tasks : [];
+      const expectedId = typeof req.query.id === 'string' ? req.query.id : null;
+
+      if (tasks.length === 0 || tasks.some(task => !task?.id)) {
+        res.status(400).json({ error: 'Postback contains no tasks' });
+        return;
+      }
+
+      if (expectedId && !tasks.some(task => task.id === expectedId)) {
+        res.status(400).json({ error: 'Postback task id does not match callback URL' });
+        return;
+      }
+
+      for (const task of tasks) {
+        const registered = await this.taskResultStore.getRegisteredTask(task.id);
+        if (!registered) {
+          // Postbacks can beat task registration; the token already proved the sender
+          this.logger.warn(`⚠️ Postback for unregistered DataForSEO task ${task.id}, storing anyway`);
+        }
+        await this.taskResultStore.saveTaskResult(task);
+      }
+
+      this.logger.info(`📥 Received DataForSEO postback for ${tasks.length} task(s)`);
+      res.json({ success: true });
+
+    } catch (error) {
+      this.logger.error('Error handling DataForSEO postback:', error);
+      res.status(500).json({
+        error: 'Failed to store postback',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  // GET /api/dataforseo/pingback - DataForSEO announces a finished task; fetch and store its result
+  public handlePingback = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.verifyToken(req)) {
+        res.status(401).json({ error: 'Invalid callback token' });
+        return;
+      }
+
+      const taskId = typeof req.query.id === 'string' ? req.query.id : null;
+      if (!taskId) {
+        res.status(400).json({ error: 'Task id is required' });
+        return;
+      }
+
+      const registered = await this.taskResultStore.getRegisteredTask(taskId);
+      if (!registered) {
+        res.status(404).json({ error: 'Unknown task' });
+        return;
+      }
+
+      const response = await this.dataForSEOClient.getTaskResult(registered.endpoint, taskId);
+      const task = response.tasks?.[0];
+
+      if (!task) {
+        res.status(502).json({ error: 'DataForSEO returned no task' });
+        return;
+      }
+
+      await this.taskResultStore.saveTaskResult(task, registered.endpoint);
+
+      this.logger.info(`📥 Received DataForSEO pingback for task ${taskId}`);
+      res.json({ success: true });
+
+    } catch (error) {
+      this.logger.error('Error handling DataForSEO pingback:', error);
+      res.status(500).json({
+        error: 'Failed to process pingback',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  private verifyToken(req: Request): boolean {
+    const secret = this.config.dataForSeoCallbackSecret;
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+    if (!secret || !token) {
+      return false;
+    }
+
+    const expected = Buffer.from(secret);
+    const received = Buffer.from(token);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+}
@@ -1,6 +1,9 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { Logger } from '../utils/Logger';
 import { JobAPI } from './JobAPI';
+import { TrustpilotDomainResolver } from '../utils/TrustpilotDomainResolver';
+import { YelpAliasResolver } from '../utils/YelpAliasResolver';
+import { ReviewSourceRegistry } from '../providers/ReviewSourceRegistry';
 
 interface TripAdvisorURLValidation {
   isValid: boolean;
@@ -10,6 +13,14 @@ interface TripAdvisorURLValidation {
   errorMessage?: string;
 }
 
+interface ReviewSourceValidation {
+  isValid: boolean;
+  businessName?: string;
+  businessId?: string;
+  sourceUrl?: string;
+  errorMessage?: string;
+}
+
 interface URLLockStatus {
   isLocked: boolean;
   lockedAt?: string;
@@ -27,7 +38,13 @@ export class EnhancedJobAPI extends JobAPI {
   // NEW: POST /api/tripadvisor/validate-url - Validate TripAdvisor URL
   public validateTripAdvisorURL = async (req: any, res: any): Promise<void> => {
     try {
-      const { url, userId } = req.body;
+      const { url } = req.body;
+
+      const actor = this.resolveUserId(req, res, req.body.userId);
+      if (!actor) {
+        return;
+      }
+      const userId = actor.userId;
 
       if (!url) {
         res.status(400).json({
@@ -36,7 +53,7 @@ export class EnhancedJobAPI extends JobAPI {
         return;
       }
 
-      const validation = await this.performURLValidation(url, userId);
+      const validation = await this.performURLValidation(url, userId || undefined);
       
       res.json({
         success: true,
@@ -55,7 +72,13 @@ export class EnhancedJobAPI extends JobAPI {
   // NEW: POST /api/tripadvisor/setup-url - Setup and lock TripAdvisor URL
   public setupTripAdvisorURL = async (req: any, res: any): Promise<void> => {
     try {
-      const { url, userId } = req.body;
+      const { url } = req.body;
+
+      const actor = this.resolveUserId(req, res, req.body.userId);
+      if (!actor) {
+        return;
+      }
+      const userId = actor.userId;
 
       if (!url || !userId) {
         res.status(400).json({
@@ -117,7 +140,12 @@ export class EnhancedJobAPI extends JobAPI {
   // NEW: GET /api/tripadvisor/lock-status/:userId - Get URL lock status
   public getTripAdvisorLockStatus = async (req: any, res: any): Promise<void> => {
     try {
-      const { userId } = req.params;
+      const actor = this.resolveUserId(req, res, req.params.userId);
+      if (!actor) {
+        return;
+      }
+      // The route always names an operator, so userId is set
+      const userId = actor.userId as string;
 
       const lockStatus = await this.getUserURLLockStatus(userId);
       
@@ -138,7 +166,13 @@ export class EnhancedJobAPI extends JobAPI {
   // NEW: POST /api/tripadvisor/trigger-sync - Enhanced sync trigger with validation
   public triggerEnhancedSync = async (req: any, res: any): Promise<void> => {
     try {
-      const { userId, fullHistory = false, priority = 'normal' } = req.body;
+      const { fullHistory = false, priority = 'normal' } = req.body;
+
+      const actor = this.resolveUserId(req, res, req.body.userId);
+      if (!actor) {
+        return;
+      }
+      const userId = actor.userId;
 
       if (!userId) {
         res.status(400).json({
@@ -147,6 +181,22 @@ export class EnhancedJobAPI extends JobAPI {
         return;
       }
 
+      const schedule = this.parseRunAt(req.body.runAt);
+      if (schedule.error) {
+        res.status(400).json({
+          error: schedule.error
+        });
+        return;
+      }
+
+      const followUpsError = this.validateFollowUps(req.body.followUps, userId);
+      if (followUpsError) {
+        res.status(400).json({
+          error: followUpsError
+        });
+        return;
+      }
+
       // Get user's TripAdvisor configuration
       const userConfig = await this.getUserTripAdvisorConfig(userId);
       
@@ -157,6 +207,23 @@ export class EnhancedJobAPI extends JobAPI {
         return;
       }
 
+      const idempotency = this.parseIdempotencyKey(req);
+      if (idempotency.error) {
+        res.status(400).json({
+          error: idempotency.error
+        });
+        return;
+      }
+
+      // A retried request, or an import of the listing queued through any endpoint
+      const dedupeKey = this.getDedupeKey(userId, 'tripadvisor_import', { user_id: userId, url: userConfig.url, full_history: fullHistory });
+      const existingJob = await this.findExistingJob(userId, 'tripadvisor_import', idempotency.key, dedupeKey);
+      
+      if (existingJob) {
+        this.replyWithExistingSync(res, existingJob, idempotency.key);
+        return;
+      }
+
       // Check if there's already a running sync
       const existingSync = await this.getRunningSync(userId);
       
@@ -170,7 +237,12 @@ export class EnhancedJobAPI extends JobAPI {
       }
 
       // Create enhanced sync job
-      const syncJob = await this.createEnhancedSyncJob(userId, userConfig, fullHistory, priority);
+      const syncJob = await this.createEnhancedSyncJob(userId, userConfig, fullHistory, priority, schedule.runAt, req.body.followUps || null, idempotency.key, dedupeKey);
+      
+      if (syncJob.existingJob) {
+        this.replyWithExistingSync(res, syncJob.existingJob, idempotency.key);
+        return;
+      }
       
       if (!syncJob.success) {
         res.status(500).json({
@@ -189,7 +261,8 @@ export class EnhancedJobAPI extends JobAPI {
         success: true,
         jobId: syncJob.jobId,
         syncJobId: syncJob.syncJobId,
-        message: 'Enhanced sync job created successfully',
+        runAt: schedule.runAt,
+        message: schedule.runAt ? 'Enhanced sync job scheduled successfully' : 'Enhanced sync job created successfully',
         estimatedDuration: fullHistory ? '2-5 minutes' : '30-60 seconds'
       });
 
@@ -205,7 +278,12 @@ export class EnhancedJobAPI extends JobAPI {
   // NEW: GET /api/sync/status/:userId - Get comprehensive sync status
   public getComprehensiveSyncStatus = async (req: any, res: any): Promise<void> => {
     try {
-      const { userId } = req.params;
+      const actor = this.resolveUserId(req, res, req.params.userId);
+      if (!actor) {
+        return;
+      }
+      // The route always names an operator, so userId is set
+      const userId = actor.userId as string;
 
       const status = await this.getComprehensiveStatus(userId);
       
@@ -223,6 +301,58 @@ export class EnhancedJobAPI extends JobAPI {
     }
   };
 
+  // NEW: POST /api/trustpilot/validate-url - Validate Trustpilot URL or domain
+  public validateTrustpilotURL = async (req: any, res: any): Promise<void> => {
+    try {
+      const { url } = req.body;
+
+      if (!url) {
+        res.status(400).json({
+          error: 'URL is required'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        validation: this.performTrustpilotValidation(url)
+      });
+
+    } catch (error) {
+      this.enhancedLogger.error('Error validating Trustpilot URL:', error);
+      res.status(500).json({
+        error: 'Failed to validate URL',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  // NEW: POST /api/yelp/validate-url - Validate Yelp URL or business alias
+  public validateYelpURL = async (req: any, res: any): Promise<void> => {
+    try {
+      const { url } = req.body;
+
+      if (!url) {
+        res.status(400).json({
+          error: 'URL is required'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        validation: this.performYelpValidation(url)
+      });
+
+    } catch (error) {
+      this.enhancedLogger.error('Error validating Yelp URL:', error);
+      res.status(500).json({
+        error: 'Failed to validate URL',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
   // Helper Methods
 
   private async performURLValidation(url: string, userId?: string): Promise<TripAdvisorURLValidation> {
@@ -270,6 +400,45 @@ export class EnhancedJobAPI extends JobAPI {
     }
   }
 
+  private performTrustpilotValidation(url: string): ReviewSourceValidation {
+    const target = TrustpilotDomainResolver.resolve(url);
+
+    if (!target) {
+      return {
+        isValid: false,
+        errorMessage: 'Invalid Trustpilot URL. Please use a review page URL like https://www.trustpilot.com/review/example.com or the business domain.'
+      };
+    }
+
+    return {
+      isValid: true,
+      businessName: target.domain,
+      businessId: target.domain,
+      sourceUrl: target.sourceUrl
+    };
+  }
+
+  private performYelpValidation(url: string): ReviewSourceValidation {
+    const target = YelpAliasResolver.resolve(url);
+
+    if (!target) {
+      return {
+        isValid: false,
+        errorMessage: 'Invalid Yelp URL. Please use a business page URL like https://www.yelp.com/biz/your-business-city or the business alias.'
+      };
+    }
+
+    return {
+      isValid: true,
+      businessName: target.alias
+        .split('-')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' '),
+      businessId: target.alias,
+      sourceUrl: target.sourceUrl
+    };
+  }
+
   private async checkURLAvailability(url: string, userId: string): Promise<{ available: boolean; reason?: string }> {
     try {
       // Check if URL is already in use by another user
@@ -402,7 +571,7 @@ export class EnhancedJobAPI extends JobAPI {
         .select('id, status, created_at')
         .eq('tour_operator_id', userId)
         .eq('platform', 'tripadvisor')
-        .in('status', ['pending', 'running'])
+        .in('status', ['pending', 'processing'])
         .order('created_at', { ascending: false })
         .limit(1)
         .single();
@@ -419,7 +588,16 @@ export class EnhancedJobAPI extends JobAPI {
     }
   }
 
-  private async createEnhancedSyncJob(userId: string, userConfig: any, fullHistory: boolean, priority: string): Promise<any> {
+  private async createEnhancedSyncJob(
+    userId: string,
+    userConfig: any,
+    fullHistory: boolean,
+    priority: string,
+    runAt: string | null,
+    followUps: any[] | null,
+    idempotencyKey: string | null,
+    dedupeKey: string | null
+  ): Promise<any> {
     try {
       // Create sync job record
       const { data: syncJob, error: syncError } = await (this as any).supabase
@@ -443,30 +621,42 @@ export class EnhancedJobAPI extends JobAPI {
       }
 
       // Create queue job for processing
-      const { data: queueJob, error: queueError } = await (this as any).supabase
-        .from('job_queue')
-        .insert({
+      const { job: queueJob, error: queueError, duplicate } = await this.enqueueJob({
+        user_id: userId,
+        job_type: 'tripadvisor_import',
+        priority: priority === 'high' ? 1 : 2,
+        status: runAt ? 'scheduled' : 'pending',
+        run_at: runAt,
+        follow_ups: followUps,
+        payload: {
           user_id: userId,
-          job_type: 'tripadvisor_import',
-          priority: priority === 'high' ? 1 : 2,
-          status: 'pending',
-          payload: {
-            user_id: userId,
-            url: userConfig.url,
-            full_history: fullHistory,
-            business_name: userConfig.businessName,
-            sync_job_id: syncJob.id
-          },
-          max_attempts: 3,
-          estimated_duration_minutes: fullHistory ? 5 : 2
-        })
-        .select()
-        .single();
+          url: userConfig.url,
+          full_history: fullHistory,
+          business_name: userConfig.businessName,
+          sync_job_id: syncJob.id
+        },
+        idempotency_key: idempotencyKey,
+        dedupe_key: dedupeKey,
+        estimated_duration_minutes: fullHistory ? 5 : 2
+      });
 
       if (queueError) {
         throw queueError;
       }
 
+      // A concurrent request got there first; its job owns the sync
+      if (duplicate) {
+        await (this as any).supabase
+          .from('review_sync_jobs')
+          .delete()
+          .eq('id', syncJob.id);
+
+        return {
+          success: false,
+          existingJob: queueJob
+        };
+      }
+
       // Link sync job to queue job
       await (this as any).supabase
         .from('review_sync_jobs')
@@ -488,6 +678,26 @@ export class EnhancedJobAPI extends JobAPI {
     }
   }
 
+  private replyWithExistingSync(res: any, job: any, idempotencyKey: string | null): void {
+    if (idempotencyKey && job.idempotency_key === idempotencyKey) {
+      res.json({
+        success: true,
+        jobId: job.id,
+        syncJobId: job.payload?.sync_job_id || null,
+        runAt: job.run_at || null,
+        idempotentReplay: true,
+        message: 'Sync job already created for this Idempotency-Key'
+      });
+      return;
+    }
+
+    res.status(409).json({
+      error: 'Sync already in progress',
+      existingJobId: job.id,
+      status: job.status
+    });
+  }
+
   private async lockUserTripAdvisorURL(userId: string): Promise<void> {
     try {
       await (this as any).supabase
@@ -533,12 +743,16 @@ export class EnhancedJobAPI extends JobAPI {
         throw countError;
       }
 
+      // Per-platform progress for every review source
+      const platforms = await this.getPlatformStatuses(userId);
+
       return {
         integration: userConfig,
         recentJobs: recentJobs || [],
         totalReviews: reviewCount?.length || 0,
         lastSyncAt: recentJobs?.[0]?.completed_at || null,
-        nextScheduledSync: '2:00 AM UTC daily' // From scheduler
+        nextScheduledSync: '2:00 AM UTC daily', // From scheduler
+        platforms
       };
 
     } catch (error) {
@@ -547,11 +761,55 @@ export class EnhancedJobAPI extends JobAPI {
         integration: { hasIntegration: false },
         recentJobs: [],
         totalReviews: 0,
-        lastSyncAt: null
+        lastSyncAt: null,
+        platforms: {}
       };
     }
   }
 
+  private async getPlatformStatuses(userId: string): Promise<Record<string, any>> {
+    const platformNames = ReviewSourceRegistry.getInstance().getPlatforms();
+
+    const { data: syncJobs, error } = await (this as any).supabase
+      .from('review_sync_jobs')
+      .select('id, platform, status, progress_percentage, processing_stage, source_url, source_business_name, total_available, imported_count, skipped_count, error_count, created_at, completed_at')
+      .eq('tour_operator_id', userId)
+      .in('platform', platformNames)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      throw error;
+    }
+
+    // Every platform's imports land in tripadvisor_reviews, told apart by source
+    const reviewCounts = await Promise.all(platformNames.map(async (platform) => {
+      const { count } = await (this as any).supabase
+        .from('tripadvisor_reviews')
+        .select('id', { count: 'exact', head: true })
+        .eq('tour_operator_id', userId)
+        .eq('source', platform);
+      return count || 0;
+    }));
+
+    const platforms: Record<string, any> = {};
+
+    platformNames.forEach((platform, index) => {
+      const jobs = (syncJobs || []).filter((job: any) => job.platform === platform);
+      const lastSucceeded = jobs.find((job: any) => job.status === 'succeeded');
+
+      platforms[platform] = {
+        configured: jobs.length > 0,
+        currentJob: jobs[0] || null,
+        recentJobs: jobs.slice(0, 5),
+        totalReviews: reviewCounts[index],
+        lastSyncAt: lastSucceeded?.completed_at || null
+      };
+    });
+
+    return platforms;
+  }
+
   private async logURLAudit(userId: string, action: string, url?: string | null, details?: string): Promise<void> {
     try {
       // Only log if audit table exists
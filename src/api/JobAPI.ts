@@ -1,19 +1,50 @@
 import { Request, Response } from 'express';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { Logger } from '../utils/Logger';
+import { UNKNOWN_BUSINESS_ID } from '../providers/ReviewSourceProvider';
+import { ReviewSourceRegistry } from '../providers/ReviewSourceRegistry';
+import { JobHandlerRegistry } from '../handlers/JobHandlerRegistry';
+import { ATTRIBUTION_REPAIR_JOB_TYPE } from '../services/AttributionRepairProcessor';
+import { JobChainer } from '../services/JobChainer';
+import { getQueueBackend, NewJob, QueueBackend } from '../services/QueueBackend';
+import { DuplicateJobError } from '../utils/JobErrors';
+import { AuthContext } from './AuthMiddleware';
+
+// Job statuses a cancellation can no longer change
+const FINISHED_JOB_STATUSES = ['completed', 'failed', 'cancelled', 'dead_letter', 'discarded'];
+// Job statuses waiting for their run_at before they can be claimed
+const UPCOMING_JOB_STATUSES = ['scheduled', 'retry_scheduled'];
+// Job statuses no worker holds yet
+const QUEUED_JOB_STATUSES = ['pending', 'scheduled', 'retry_scheduled'];
+// Job statuses that block another job with the same dedupe_key
+const ACTIVE_JOB_STATUSES = [...QUEUED_JOB_STATUSES, 'claimed', 'processing'];
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
 
 export class JobAPI {
   private supabase: SupabaseClient;
   private logger = Logger.getInstance();
+  private reviewSources = ReviewSourceRegistry.getInstance();
+  private jobHandlers = JobHandlerRegistry.getInstance();
+  private jobChainer: JobChainer;
+  private queue: QueueBackend;
 
   constructor(supabase: SupabaseClient) {
     this.supabase = supabase;
+    this.jobChainer = new JobChainer(supabase);
+    this.queue = getQueueBackend(supabase);
   }
 
   // POST /api/jobs/tripadvisor - Create TripAdvisor import job
   public createTripAdvisorJob = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { user_id, url, full_history = false, business_name } = req.body;
+      const { url, full_history = false, business_name } = req.body;
+
+      const actor = this.resolveUserId(req, res, req.body.user_id);
+      if (!actor) {
+        return;
+      }
+      const user_id = actor.userId;
 
       // Validate required fields
       if (!user_id || !url) {
@@ -31,27 +62,61 @@ export class JobAPI {
         return;
       }
 
+      const schedule = this.parseRunAt(req.body.run_at);
+      if (schedule.error) {
+        res.status(400).json({
+          error: schedule.error
+        });
+        return;
+      }
+
+      const followUpsError = this.validateFollowUps(req.body.follow_ups, user_id);
+      if (followUpsError) {
+        res.status(400).json({
+          error: followUpsError
+        });
+        return;
+      }
+
+      const payload = { user_id, url, full_history, business_name };
+      const payloadError = this.validatePayload('tripadvisor_import', payload);
+      if (payloadError) {
+        res.status(400).json({
+          error: payloadError
+        });
+        return;
+      }
+
+      const idempotency = this.parseIdempotencyKey(req);
+      if (idempotency.error) {
+        res.status(400).json({
+          error: idempotency.error
+        });
+        return;
+      }
+
+      const dedupeKey = this.getDedupeKey(user_id, 'tripadvisor_import', payload);
+      const existingJob = await this.findExistingJob(user_id, 'tripadvisor_import', idempotency.key, dedupeKey);
+      if (existingJob) {
+        this.replyWithExistingJob(res, existingJob, idempotency.key);
+        return;
+      }
+
       // Create job in queue
-      const jobData = {
+      const jobData: NewJob = {
         user_id,
         job_type: 'tripadvisor_import',
         priority: 1,
-        status: 'pending',
-        payload: {
-          user_id,
-          url,
-          full_history,
-          business_name
-        },
-        max_attempts: 3,
+        status: schedule.runAt ? 'scheduled' : 'pending',
+        run_at: schedule.runAt,
+        follow_ups: req.body.follow_ups || null,
+        payload,
+        idempotency_key: idempotency.key,
+        dedupe_key: dedupeKey,
         estimated_duration_minutes: 5
       };
 
-      const { data: job, error: jobError } = await this.supabase
-        .from('job_queue')
-        .insert([jobData])
-        .select()
-        .single();
+      const { job, error: jobError, duplicate } = await this.enqueueJob(jobData);
 
       if (jobError) {
         this.logger.error('Failed to create job:', jobError);
@@ -62,12 +127,18 @@ export class JobAPI {
         return;
       }
 
+      if (duplicate) {
+        this.replyWithExistingJob(res, job, idempotency.key);
+        return;
+      }
+
       this.logger.info(`📝 Created TripAdvisor job: ${job.id}`);
 
       res.status(201).json({
         success: true,
         job_id: job.id,
         status: job.status,
+        run_at: job.run_at || null,
         estimated_duration_minutes: job.estimated_duration_minutes,
         message: 'TripAdvisor import job created successfully'
       });
@@ -81,6 +152,125 @@ export class JobAPI {
     }
   };
 
+  // POST /api/jobs/google - Create Google Reviews import job
+  public createGoogleReviewsJob = async (req: Request, res: Response): Promise<void> => {
+    await this.createReviewImportJob('google_reviews_import', req, res);
+  };
+
+  // POST /api/jobs/trustpilot - Create Trustpilot import job
+  public createTrustpilotJob = async (req: Request, res: Response): Promise<void> => {
+    await this.createReviewImportJob('trustpilot_import', req, res);
+  };
+
+  // POST /api/jobs/yelp - Create Yelp import job
+  public createYelpJob = async (req: Request, res: Response): Promise<void> => {
+    await this.createReviewImportJob('yelp_import', req, res);
+  };
+
+  // POST /api/jobs/attribution-repair - Re-attribute reviews written under the wrong operator
+  public createAttributionRepairJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sync_job_id } = req.body;
+
+      const actor = this.resolveUserId(req, res, req.body.user_id);
+      if (!actor) {
+        return;
+      }
+      const user_id = actor.userId;
+
+      if (!user_id) {
+        res.status(400).json({
+          error: 'Missing required field: user_id'
+        });
+        return;
+      }
+
+      const schedule = this.parseRunAt(req.body.run_at);
+      if (schedule.error) {
+        res.status(400).json({
+          error: schedule.error
+        });
+        return;
+      }
+
+      const followUpsError = this.validateFollowUps(req.body.follow_ups, user_id);
+      if (followUpsError) {
+        res.status(400).json({
+          error: followUpsError
+        });
+        return;
+      }
+
+      const payload = { user_id, sync_job_id };
+      const payloadError = this.validatePayload(ATTRIBUTION_REPAIR_JOB_TYPE, payload);
+      if (payloadError) {
+        res.status(400).json({
+          error: payloadError
+        });
+        return;
+      }
+
+      const idempotency = this.parseIdempotencyKey(req);
+      if (idempotency.error) {
+        res.status(400).json({
+          error: idempotency.error
+        });
+        return;
+      }
+
+      // Repairs aren't deduplicated by listing; running one twice is harmless
+      const existingJob = await this.findExistingJob(user_id, ATTRIBUTION_REPAIR_JOB_TYPE, idempotency.key, null);
+      if (existingJob) {
+        this.replyWithExistingJob(res, existingJob, idempotency.key);
+        return;
+      }
+
+      const { job, error: jobError, duplicate } = await this.enqueueJob({
+        user_id,
+        job_type: ATTRIBUTION_REPAIR_JOB_TYPE,
+        priority: 3,
+        status: schedule.runAt ? 'scheduled' : 'pending',
+        run_at: schedule.runAt,
+        follow_ups: req.body.follow_ups || null,
+        payload,
+        idempotency_key: idempotency.key,
+        estimated_duration_minutes: 10
+      });
+
+      if (jobError) {
+        this.logger.error('Failed to create job:', jobError);
+        res.status(500).json({
+          error: 'Failed to create job',
+          details: jobError.message
+        });
+        return;
+      }
+
+      if (duplicate) {
+        this.replyWithExistingJob(res, job, idempotency.key);
+        return;
+      }
+
+      this.logger.info(`📝 Created attribution repair job: ${job.id}`);
+
+      res.status(201).json({
+        success: true,
+        job_id: job.id,
+        status: job.status,
+        run_at: job.run_at || null,
+        estimated_duration_minutes: job.estimated_duration_minutes,
+        message: 'Attribution repair job created successfully'
+      });
+
+    } catch (error) {
+      this.logger.error('Error creating attribution repair job:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
   // GET /api/jobs/:id/status - Get job status
   public getJobStatus = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -92,16 +282,20 @@ export class JobAPI {
         .eq('id', id)
         .single();
 
-      if (jobError || !job) {
+      // Other operators' jobs look like missing ones
+      if (jobError || !job || !this.canAccessUser(req, job.user_id)) {
         res.status(404).json({
           error: 'Job not found'
         });
         return;
       }
 
+      // Parent/child links and aggregate status when the job is part of a workflow
+      const workflow = await this.jobChainer.getWorkflowSummary(job);
+
       // Get sync job details if available
       let syncJob = null;
-      if (job.job_type === 'tripadvisor_import') {
+      if (this.reviewSources.getByJobType(job.job_type)) {
         const { data: syncData } = await this.supabase
           .from('review_sync_jobs')
           .select('*')
@@ -119,7 +313,14 @@ export class JobAPI {
         started_at: job.started_at,
         completed_at: job.completed_at,
         error_message: job.error_message,
+        attempts: job.attempts || 0,
+        max_attempts: job.max_attempts,
+        run_at: job.run_at || null,
+        next_attempt_at: job.status === 'retry_scheduled' ? job.run_at : null,
         worker_id: job.worker_id,
+        result: job.result || null,
+        parent_job_id: job.parent_job_id || null,
+        workflow,
         sync_job: syncJob ? {
           id: syncJob.id,
           platform: syncJob.platform,
@@ -140,10 +341,125 @@ export class JobAPI {
     }
   };
 
+  // POST /api/jobs/:id/cancel - Cancel a queued or running job
+  public cancelJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const { data: job, error: jobError } = await this.supabase
+        .from('job_queue')
+        .select('id, user_id, status, payload')
+        .eq('id', id)
+        .single();
+
+      if (jobError || !job || !this.canAccessUser(req, job.user_id)) {
+        res.status(404).json({
+          error: 'Job not found'
+        });
+        return;
+      }
+
+      if (FINISHED_JOB_STATUSES.includes(job.status)) {
+        res.status(409).json({
+          error: `Job is already ${job.status}`
+        });
+        return;
+      }
+
+      // A job no worker has claimed yet can be cancelled outright
+      if (QUEUED_JOB_STATUSES.includes(job.status)) {
+        const { data: cancelled, error: cancelError } = await this.supabase
+          .from('job_queue')
+          .update({
+            status: 'cancelled',
+            completed_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .in('status', QUEUED_JOB_STATUSES)
+          .select('id');
+
+        if (cancelError) {
+          this.logger.error('Failed to cancel job:', cancelError);
+          res.status(500).json({
+            error: 'Failed to cancel job',
+            details: cancelError.message
+          });
+          return;
+        }
+
+        if (cancelled && cancelled.length > 0) {
+          if (job.payload?.sync_job_id) {
+            await this.supabase
+              .from('review_sync_jobs')
+              .update({
+                status: 'cancelled',
+                completed_at: new Date().toISOString(),
+                updated_at: new Date().toISOString()
+              })
+              .eq('id', job.payload.sync_job_id);
+          }
+
+          this.logger.info(`🛑 Cancelled queued job: ${id}`);
+          res.json({
+            success: true,
+            job_id: id,
+            status: 'cancelled'
+          });
+          return;
+        }
+        // Claimed in the meantime; hand the cancellation to the worker below
+      }
+
+      // The worker notices the cancelling status on its next heartbeat and marks the job cancelled
+      const { data: cancelling, error: cancellingError } = await this.supabase
+        .from('job_queue')
+        .update({ status: 'cancelling' })
+        .eq('id', id)
+        .not('status', 'in', `(${FINISHED_JOB_STATUSES.join(',')})`)
+        .select('id');
+
+      if (cancellingError) {
+        this.logger.error('Failed to cancel job:', cancellingError);
+        res.status(500).json({
+          error: 'Failed to cancel job',
+          details: cancellingError.message
+        });
+        return;
+      }
+
+      if (!cancelling || cancelling.length === 0) {
+        res.status(409).json({
+          error: 'Job finished before it could be cancelled'
+        });
+        return;
+      }
+
+      this.logger.info(`🛑 Requested cancellation of job: ${id}`);
+      res.status(202).json({
+        success: true,
+        job_id: id,
+        status: 'cancelling',
+        message: 'Cancellation requested; the job stops at its next checkpoint'
+      });
+
+    } catch (error) {
+      this.logger.error('Error cancelling job:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
   // GET /api/jobs - List user jobs
   public listUserJobs = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { user_id } = req.query;
+      const { status } = req.query;
+      const actor = this.resolveUserId(req, res, req.query.user_id);
+      if (!actor) {
+        return;
+      }
+      const user_id = actor.userId;
       const limit = parseInt(req.query.limit as string) || 50;
       const offset = parseInt(req.query.offset as string) || 0;
 
@@ -154,13 +470,22 @@ export class JobAPI {
         return;
       }
 
-      const { data: jobs, error: jobsError } = await this.supabase
+      let query = this.supabase
         .from('job_queue')
         .select('*')
         .eq('user_id', user_id)
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
 
+      // status=upcoming lists jobs waiting for their run_at, including scheduled retries
+      if (status === 'upcoming') {
+        query = query.in('status', UPCOMING_JOB_STATUSES);
+      } else if (typeof status === 'string' && status) {
+        query = query.eq('status', status);
+      }
+
+      const { data: jobs, error: jobsError } = await query;
+
       if (jobsError) {
         this.logger.error('Error listing jobs:', jobsError);
         res.status(500).json({
@@ -175,6 +500,8 @@ export class JobAPI {
           job_id: job.id,
           job_type: job.job_type,
           status: job.status,
+          upcoming: UPCOMING_JOB_STATUSES.includes(job.status),
+          run_at: job.run_at || null,
           created_at: job.created_at,
           completed_at: job.completed_at,
           error_message: job.error_message
@@ -203,11 +530,11 @@ export class JobAPI {
       // Get sync job ID
       const { data: syncJob, error: syncError } = await this.supabase
         .from('review_sync_jobs')
-        .select('id')
+        .select('id, tour_operator_id')
         .eq('queue_job_id', id)
         .single();
 
-      if (syncError || !syncJob) {
+      if (syncError || !syncJob || !this.canAccessUser(req, syncJob.tour_operator_id)) {
         res.status(404).json({
           error: 'Job not found or no reviews available'
         });
@@ -247,5 +574,316 @@ export class JobAPI {
       });
     }
   };
-}
 
+  /**
+   * Optional run_at for delayed jobs. A future ISO 8601 time schedules the job;
+   * an omitted or past time queues it right away.
+   */
+  protected parseRunAt(value: unknown): { runAt: string | null; error?: string } {
+    if (value === undefined || value === null || value === '') {
+      return { runAt: null };
+    }
+
+    const runAt = typeof value === 'string' ? new Date(value) : null;
+    if (!runAt || isNaN(runAt.getTime())) {
+      return { runAt: null, error: 'run_at must be an ISO 8601 date-time' };
+    }
+
+    return { runAt: runAt.getTime() > Date.now() ? runAt.toISOString() : null };
+  }
+
+  /** Follow-up jobs may be any job type the workers run, with a valid payload for the operator. */
+  protected validateFollowUps(value: unknown, userId: string): string | null {
+    return JobChainer.validateFollowUps(value, userId, this.jobHandlers);
+  }
+
+  /** Checks a new job's payload against its handler's schema. Returns an error message, or null when valid. */
+  protected validatePayload(jobType: string, payload: unknown): string | null {
+    return this.jobHandlers.validatePayload(jobType, payload).error;
+  }
+
+  /**
+   * The operator a request acts for. A user always acts for themselves and gets a
+   * 403 for naming anyone else; admins and the service role act for the operator
+   * they name, so userId is null when the service role names none. Returns null
+   * once it has replied.
+   */
+  protected resolveUserId(req: Request, res: Response, requestedUserId: unknown): { userId: string | null } | null {
+    const auth = req.auth as AuthContext;
+    const requested = typeof requestedUserId === 'string' && requestedUserId ? requestedUserId : null;
+
+    if (auth.isAdmin) {
+      return { userId: requested || auth.userId };
+    }
+
+    if (requested && requested !== auth.userId) {
+      res.status(403).json({
+        error: 'Access denied: requests may only act for the authenticated user'
+      });
+      return null;
+    }
+
+    return { userId: auth.userId };
+  }
+
+  // Whether the request may see an operator's jobs and reviews
+  protected canAccessUser(req: Request, userId: string | null | undefined): boolean {
+    const auth = req.auth as AuthContext;
+    return auth.isAdmin || (!!userId && userId === auth.userId);
+  }
+
+  /** Optional Idempotency-Key header; a retried create request with the same key gets the original job back. */
+  protected parseIdempotencyKey(req: Request): { key: string | null; error?: string } {
+    const key = req.get('Idempotency-Key');
+    if (!key) {
+      return { key: null };
+    }
+
+    if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return { key: null, error: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` };
+    }
+
+    return { key };
+  }
+
+  /**
+   * One active import per operator and listing, whichever endpoint created it.
+   * Null when the payload doesn't resolve to a listing; the worker rejects those. Also
+   * null when the URL names no business, as every such listing shares the same id.
+   */
+  protected getDedupeKey(userId: string, jobType: string, payload: any): string | null {
+    const provider = this.reviewSources.getByJobType(jobType);
+    if (!provider) {
+      return null;
+    }
+
+    try {
+      const { businessId } = provider.resolveSource(payload);
+      return businessId === UNKNOWN_BUSINESS_ID ? null : `${userId}:${jobType}:${businessId}`;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * The job an earlier request with this Idempotency-Key created, else an active job with
+   * the same dedupe key. Keys are scoped to the job type, so reusing one on another
+   * endpoint creates a new job instead of returning an unrelated one.
+   */
+  protected async findExistingJob(userId: string, jobType: string, idempotencyKey: string | null, dedupeKey: string | null): Promise<any | null> {
+    if (idempotencyKey) {
+      const { data: job, error } = await this.supabase
+        .from('job_queue')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('job_type', jobType)
+        .eq('idempotency_key', idempotencyKey)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to look up Idempotency-Key: ${error.message}`);
+      }
+      if (job) {
+        return job;
+      }
+    }
+
+    if (dedupeKey) {
+      const { data: jobs, error } = await this.supabase
+        .from('job_queue')
+        .select('*')
+        .eq('dedupe_key', dedupeKey)
+        .in('status', ACTIVE_JOB_STATUSES)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (error) {
+        throw new Error(`Failed to look up active jobs: ${error.message}`);
+      }
+      if (jobs && jobs.length > 0) {
+        return jobs[0];
+      }
+    }
+
+    return null;
+  }
+
+  // A replayed Idempotency-Key gets the original job; anything else is a duplicate of an active job
+  protected replyWithExistingJob(res: Response, job: any, idempotencyKey: string | null): void {
+    if (idempotencyKey && job.idempotency_key === idempotencyKey) {
+      res.status(200).json({
+        success: true,
+        job_id: job.id,
+        status: job.status,
+        run_at: job.run_at || null,
+        estimated_duration_minutes: job.estimated_duration_minutes,
+        idempotent_replay: true,
+        message: 'Job already created for this Idempotency-Key'
+      });
+      return;
+    }
+
+    res.status(409).json({
+      error: 'A job for this listing is already queued or running',
+      job_id: job.id,
+      status: job.status
+    });
+  }
+
+  private async createReviewImportJob(jobType: string, req: Request, res: Response): Promise<void> {
+    const provider = this.reviewSources.getByJobType(jobType);
+    if (!provider) {
+      res.status(400).json({
+        error: `Unsupported job type: ${jobType}`
+      });
+      return;
+    }
+
+    try {
+      const { url, place_id, cid, full_history = false, business_name } = req.body;
+
+      const actor = this.resolveUserId(req, res, req.body.user_id);
+      if (!actor) {
+        return;
+      }
+      const user_id = actor.userId;
+
+      if (!user_id) {
+        res.status(400).json({
+          error: 'Missing required field: user_id'
+        });
+        return;
+      }
+
+      // Validate the listing with the same rules the worker applies
+      const payload = { user_id, url, place_id, cid, full_history, business_name };
+      let target;
+      try {
+        target = provider.resolveSource(payload);
+      } catch (error) {
+        res.status(400).json({
+          error: error instanceof Error ? error.message : `Invalid ${provider.displayName} source`
+        });
+        return;
+      }
+
+      const schedule = this.parseRunAt(req.body.run_at);
+      if (schedule.error) {
+        res.status(400).json({
+          error: schedule.error
+        });
+        return;
+      }
+
+      const followUpsError = this.validateFollowUps(req.body.follow_ups, user_id);
+      if (followUpsError) {
+        res.status(400).json({
+          error: followUpsError
+        });
+        return;
+      }
+
+      const jobPayload = {
+        ...payload,
+        ...target.params,
+        url: target.sourceUrl || url
+      };
+      const payloadError = this.validatePayload(jobType, jobPayload);
+      if (payloadError) {
+        res.status(400).json({
+          error: payloadError
+        });
+        return;
+      }
+
+      const idempotency = this.parseIdempotencyKey(req);
+      if (idempotency.error) {
+        res.status(400).json({
+          error: idempotency.error
+        });
+        return;
+      }
+
+      const dedupeKey = this.getDedupeKey(user_id, jobType, jobPayload);
+      const existingJob = await this.findExistingJob(user_id, jobType, idempotency.key, dedupeKey);
+      if (existingJob) {
+        this.replyWithExistingJob(res, existingJob, idempotency.key);
+        return;
+      }
+
+      const { job, error: jobError, duplicate } = await this.enqueueJob({
+        user_id,
+        job_type: jobType,
+        priority: 1,
+        status: schedule.runAt ? 'scheduled' : 'pending',
+        run_at: schedule.runAt,
+        follow_ups: req.body.follow_ups || null,
+        payload: jobPayload,
+        idempotency_key: idempotency.key,
+        dedupe_key: dedupeKey,
+        estimated_duration_minutes: 5
+      });
+
+      if (jobError) {
+        this.logger.error('Failed to create job:', jobError);
+        res.status(500).json({
+          error: 'Failed to create job',
+          details: jobError.message
+        });
+        return;
+      }
+
+      if (duplicate) {
+        this.replyWithExistingJob(res, job, idempotency.key);
+        return;
+      }
+
+      this.logger.info(`📝 Created ${provider.displayName} job: ${job.id}`);
+
+      res.status(201).json({
+        success: true,
+        job_id: job.id,
+        status: job.status,
+        run_at: job.run_at || null,
+        estimated_duration_minutes: job.estimated_duration_minutes,
+        message: `${provider.displayName} import job created successfully`
+      });
+
+    } catch (error) {
+      this.logger.error(`Error creating ${provider.displayName} job:`, error);
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Inserts the job into job_queue and hands it to the queue backend, with max_attempts
+   * from its retry policy. A concurrent request that won the race to the same
+   * idempotency or dedupe key returns its job with duplicate set.
+   */
+  protected async enqueueJob(jobData: NewJob): Promise<{ job: any; error: Error | null; duplicate: boolean }> {
+    const handler = this.jobHandlers.get(jobData.job_type);
+
+    try {
+      const [job] = await this.queue.enqueue([{
+        ...(handler ? { max_attempts: handler.retryPolicy.maxAttempts } : {}),
+        ...jobData
+      }]);
+      return { job, error: null, duplicate: false };
+    } catch (error) {
+      if (error instanceof DuplicateJobError) {
+        try {
+          const existingJob = await this.findExistingJob(jobData.user_id, jobData.job_type, jobData.idempotency_key ?? null, jobData.dedupe_key ?? null);
+          if (existingJob) {
+            return { job: existingJob, error: null, duplicate: true };
+          }
+        } catch (lookupError) {
+          this.logger.warn('⚠️ Failed to load the job a duplicate was refused for:', lookupError);
+        }
+      }
+      return { job: null, error: error instanceof Error ? error : new Error('Unknown error'), duplicate: false };
+    }
+  }
+}
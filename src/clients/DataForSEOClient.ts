@@ -1,6 +1,7 @@
 import axios, { AxiosInstance } from 'axios';
 import { Config } from '../config/Config';
 import { Logger } from '../utils/Logger';
+import { ConcurrencyController } from '../services/ConcurrencyController';
 
 export class DataForSEOClient {
   private config = Config.getInstance();
@@ -19,12 +20,28 @@ export class DataForSEOClient {
         'Content-Type': 'application/json'
       }
     });
+
+    // Server errors, rate limits and network failures feed the worker's adaptive concurrency
+    const concurrency = ConcurrencyController.getInstance();
+    this.client.interceptors.response.use(
+      response => {
+        concurrency.recordDownstreamResult('dataforseo', true);
+        return response;
+      },
+      error => {
+        if (!axios.isCancel(error)) {
+          const status = error.response?.status;
+          concurrency.recordDownstreamResult('dataforseo', !!status && status < 500 && status !== 429);
+        }
+        return Promise.reject(error);
+      }
+    );
   }
 
-  public async createTask(endpoint: string, payload: any[]): Promise<any> {
+  public async createTask(endpoint: string, payload: any[], signal?: AbortSignal): Promise<any> {
     try {
       this.logger.debug(`POST /${endpoint}/task_post`, payload);
-      const response = await this.client.post(`/${endpoint}/task_post`, payload);
+      const response = await this.client.post(`/${endpoint}/task_post`, payload, signal ? { signal } : {});
       return response.data;
     } catch (error) {
       this.handleApiError(error);
@@ -41,7 +58,50 @@ export class DataForSEOClient {
     }
   }
 
+  /** Ids of finished tasks on an endpoint that have not been collected with task_get yet. */
+  public async getTasksReady(endpoint: string): Promise<string[]> {
+    try {
+      this.logger.debug(`GET /${endpoint}/tasks_ready`);
+      const response = await this.client.get(`/${endpoint}/tasks_ready`);
+      const ready: any[] = response.data?.tasks?.[0]?.result || [];
+      return ready.map(task => task.id);
+    } catch (error) {
+      this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Task options that make DataForSEO call this service when a task finishes.
+   * Empty when callbacks are not configured, in which case jobs poll task_get.
+   */
+  public getCallbackOptions(): Record<string, string> {
+    const { dataForSeoCallbackUrl, dataForSeoCallbackSecret, dataForSeoCallbackMode } = this.config;
+
+    if (!dataForSeoCallbackUrl || !dataForSeoCallbackSecret) {
+      return {};
+    }
+
+    // DataForSEO substitutes $id and $tag itself
+    const baseUrl = dataForSeoCallbackUrl.replace(/\/$/, '');
+    const token = encodeURIComponent(dataForSeoCallbackSecret);
+
+    if (dataForSeoCallbackMode === 'pingback') {
+      return { pingback_url: `${baseUrl}/api/dataforseo/pingback?token=${token}&id=$id&tag=$tag` };
+    }
+
+    return { postback_url: `${baseUrl}/api/dataforseo/postback?token=${token}&id=$id` };
+  }
+
+  public hasCallbacks(): boolean {
+    return Object.keys(this.getCallbackOptions()).length > 0;
+  }
+
   private handleApiError(error: any): never {
+    // Aborted requests are rethrown as-is so callers can tell a cancellation from a failure
+    if (axios.isCancel(error)) {
+      throw error;
+    }
+
     if (axios.isAxiosError(error) && error.response) {
       this.logger.error('DataForSEO API Error:', {
         status: error.response.status,
@@ -5,6 +5,9 @@ export interface WorkerConfig {
   workerId: string;
   workerVersion: string;
   hostname: string;
+  // Without WORKER_ID: a random id per start, or one derived from the hostname or replica index
+  workerIdSource: 'random' | 'hostname' | 'replica';
+  workerReplicaIndex?: number;
   
   // Database
   supabaseUrl: string;
@@ -12,20 +15,63 @@ export interface WorkerConfig {
   
   // Redis (optional - can use Supabase for queue)
   redisUrl?: string;
+  // Where jobs are queued and claimed; job_queue stays the record the API reads either way
+  queueBackend: 'supabase' | 'bull';
   
   // DataForSEO API
   dataForSeoUsername: string;
   dataForSeoPassword: string;
+  // Public base URL DataForSEO calls back; polling is used when unset
+  dataForSeoCallbackUrl?: string;
+  dataForSeoCallbackSecret?: string;
+  dataForSeoCallbackMode: 'postback' | 'pingback';
   
   // Worker Settings
+  // Job types this worker claims; empty claims every supported type
+  workerJobTypes: string[];
   maxConcurrentJobs: number;
+  // Per job type: jobs of that type this worker runs at once, and their claim duration
+  jobTypeConcurrency: Record<string, number>;
+  jobTypeClaimDurationMinutes: Record<string, number>;
+  // Overrides the timeout of a job type's handler
+  jobTypeTimeoutSeconds: Record<string, number>;
+  // Adaptive concurrency moves the slot count between min and max with heap, event-loop and error pressure
+  adaptiveConcurrencyEnabled: boolean;
+  minConcurrentJobs: number;
+  // Share of V8's heap size limit in use above which concurrency shrinks
+  heapUsageThreshold: number;
+  eventLoopDelayThresholdMs: number;
+  downstreamErrorRateThreshold: number;
   jobClaimDurationMinutes: number;
   heartbeatIntervalSeconds: number;
+  // Jobs waiting on a DataForSEO task don't hold a slot, up to this many
+  maxWaitingJobs: number;
+  taskPollIntervalSeconds: number;
+  taskWaitTimeoutMinutes: number;
+  // Job polling backs off between these bounds while the queue is idle
+  jobPollMinIntervalSeconds: number;
+  jobPollMaxIntervalSeconds: number;
+  // Claim as soon as Supabase Realtime reports a pending job
+  jobNotificationsEnabled: boolean;
+  // How long shutdown waits for running jobs before releasing them back to the queue
+  drainTimeoutSeconds: number;
+  // Workers missing this many heartbeats are marked offline and their jobs requeued
+  workerStaleHeartbeats: number;
+  
+  // Scheduling: jobs one operator may run at once across the fleet, with per-operator overrides
+  maxJobsPerTenant: number;
+  tenantConcurrencyOverrides: Record<string, number>;
+  // Minutes in the queue that raise a job by one priority level
+  priorityAgingMinutes: number;
   
   // Processing Settings
   batchSize: number;
   maxRetryAttempts: number;
   retryDelaySeconds: number;
+  // Cap on the exponential backoff between job attempts
+  retryMaxDelaySeconds: number;
+  // Distinct workers a job may crash or time out on before it is quarantined
+  poisonJobWorkerThreshold: number;
   
   // Health Server
   healthPort: number;
@@ -41,22 +87,51 @@ const configSchema = Joi.object({
   workerId: Joi.string().default(() => `worker-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`),
   workerVersion: Joi.string().default('1.0.0'),
   hostname: Joi.string().default(() => require('os').hostname()),
+  workerIdSource: Joi.string().valid('random', 'hostname', 'replica').default('random'),
+  workerReplicaIndex: Joi.number().integer().min(0).when('workerIdSource', { is: 'replica', then: Joi.required() }),
   
   supabaseUrl: Joi.string().uri().required(),
   supabaseServiceKey: Joi.string().required(),
   
-  redisUrl: Joi.string().uri().optional(),
+  redisUrl: Joi.string().uri().when('queueBackend', { is: 'bull', then: Joi.required() }),
+  queueBackend: Joi.string().valid('supabase', 'bull').default('supabase'),
   
   dataForSeoUsername: Joi.string().required(),
   dataForSeoPassword: Joi.string().required(),
+  dataForSeoCallbackUrl: Joi.string().uri().optional(),
+  dataForSeoCallbackSecret: Joi.string().min(16).when('dataForSeoCallbackUrl', { is: Joi.exist(), then: Joi.required() }),
+  dataForSeoCallbackMode: Joi.string().valid('postback', 'pingback').default('postback'),
   
+  workerJobTypes: Joi.array().items(Joi.string()).default([]),
   maxConcurrentJobs: Joi.number().integer().min(1).max(50).default(5),
+  jobTypeConcurrency: Joi.object().pattern(Joi.string(), Joi.number().integer().min(1).max(50)).default({}),
+  jobTypeClaimDurationMinutes: Joi.object().pattern(Joi.string(), Joi.number().integer().min(5).max(120)).default({}),
+  jobTypeTimeoutSeconds: Joi.object().pattern(Joi.string(), Joi.number().integer().min(30).max(86400)).default({}),
+  adaptiveConcurrencyEnabled: Joi.boolean().default(true),
+  minConcurrentJobs: Joi.number().integer().min(1).max(Joi.ref('maxConcurrentJobs')).default(1),
+  heapUsageThreshold: Joi.number().min(0.1).max(1).default(0.85),
+  eventLoopDelayThresholdMs: Joi.number().integer().min(1).max(10000).default(100),
+  downstreamErrorRateThreshold: Joi.number().min(0).max(1).default(0.25),
   jobClaimDurationMinutes: Joi.number().integer().min(5).max(120).default(30),
   heartbeatIntervalSeconds: Joi.number().integer().min(10).max(300).default(30),
+  maxWaitingJobs: Joi.number().integer().min(0).max(500).default(20),
+  taskPollIntervalSeconds: Joi.number().integer().min(5).max(300).default(10),
+  taskWaitTimeoutMinutes: Joi.number().integer().min(1).max(120).default(10),
+  jobPollMinIntervalSeconds: Joi.number().min(0.5).max(60).default(1),
+  jobPollMaxIntervalSeconds: Joi.number().min(Joi.ref('jobPollMinIntervalSeconds')).max(600).default(30),
+  jobNotificationsEnabled: Joi.boolean().default(true),
+  drainTimeoutSeconds: Joi.number().integer().min(0).max(3600).default(60),
+  workerStaleHeartbeats: Joi.number().integer().min(2).max(100).default(3),
+  
+  maxJobsPerTenant: Joi.number().integer().min(1).max(100).default(2),
+  tenantConcurrencyOverrides: Joi.object().pattern(Joi.string(), Joi.number().integer().min(0)).default({}),
+  priorityAgingMinutes: Joi.number().min(1).max(1440).default(30),
   
   batchSize: Joi.number().integer().min(1).max(100).default(20),
   maxRetryAttempts: Joi.number().integer().min(1).max(10).default(3),
   retryDelaySeconds: Joi.number().integer().min(1).max(3600).default(60),
+  retryMaxDelaySeconds: Joi.number().integer().min(1).max(86400).default(3600),
+  poisonJobWorkerThreshold: Joi.number().integer().min(2).max(20).default(3),
   
   healthPort: Joi.number().integer().min(1000).max(65535).default(8080),
   
@@ -80,22 +155,51 @@ export class Config {
       workerId: process.env.WORKER_ID,
       workerVersion: process.env.WORKER_VERSION || process.env.npm_package_version,
       hostname: process.env.HOSTNAME,
+      workerIdSource: process.env.WORKER_ID_SOURCE || 'random',
+      workerReplicaIndex: process.env.WORKER_REPLICA_INDEX ? parseInt(process.env.WORKER_REPLICA_INDEX) : undefined,
       
       supabaseUrl: process.env.SUPABASE_URL,
       supabaseServiceKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
       
       redisUrl: process.env.REDIS_URL,
+      queueBackend: process.env.QUEUE_BACKEND || 'supabase',
       
       dataForSeoUsername: process.env.DATAFORSEO_USERNAME,
       dataForSeoPassword: process.env.DATAFORSEO_PASSWORD,
+      dataForSeoCallbackUrl: process.env.DATAFORSEO_CALLBACK_URL,
+      dataForSeoCallbackSecret: process.env.DATAFORSEO_CALLBACK_SECRET,
+      dataForSeoCallbackMode: process.env.DATAFORSEO_CALLBACK_MODE || 'postback',
       
+      workerJobTypes: (process.env.WORKER_JOB_TYPES || '').split(',').map(jobType => jobType.trim()).filter(Boolean),
       maxConcurrentJobs: parseInt(process.env.MAX_CONCURRENT_JOBS || '5'),
+      jobTypeConcurrency: Config.parseLimits(process.env.JOB_TYPE_CONCURRENCY),
+      jobTypeClaimDurationMinutes: Config.parseLimits(process.env.JOB_TYPE_CLAIM_DURATION_MINUTES),
+      jobTypeTimeoutSeconds: Config.parseLimits(process.env.JOB_TYPE_TIMEOUT_SECONDS),
+      adaptiveConcurrencyEnabled: process.env.ADAPTIVE_CONCURRENCY_ENABLED !== 'false',
+      minConcurrentJobs: parseInt(process.env.MIN_CONCURRENT_JOBS || '1'),
+      heapUsageThreshold: parseFloat(process.env.HEAP_USAGE_THRESHOLD || '0.85'),
+      eventLoopDelayThresholdMs: parseInt(process.env.EVENT_LOOP_DELAY_THRESHOLD_MS || '100'),
+      downstreamErrorRateThreshold: parseFloat(process.env.DOWNSTREAM_ERROR_RATE_THRESHOLD || '0.25'),
       jobClaimDurationMinutes: parseInt(process.env.JOB_CLAIM_DURATION_MINUTES || '30'),
       heartbeatIntervalSeconds: parseInt(process.env.HEARTBEAT_INTERVAL_SECONDS || '30'),
+      maxWaitingJobs: parseInt(process.env.MAX_WAITING_JOBS || '20'),
+      taskPollIntervalSeconds: parseInt(process.env.TASK_POLL_INTERVAL_SECONDS || '10'),
+      taskWaitTimeoutMinutes: parseInt(process.env.TASK_WAIT_TIMEOUT_MINUTES || '10'),
+      jobPollMinIntervalSeconds: parseFloat(process.env.JOB_POLL_MIN_INTERVAL_SECONDS || '1'),
+      jobPollMaxIntervalSeconds: parseFloat(process.env.JOB_POLL_MAX_INTERVAL_SECONDS || '30'),
+      jobNotificationsEnabled: process.env.JOB_NOTIFICATIONS_ENABLED !== 'false',
+      drainTimeoutSeconds: parseInt(process.env.DRAIN_TIMEOUT_SECONDS || '60'),
+      workerStaleHeartbeats: parseInt(process.env.WORKER_STALE_HEARTBEATS || '3'),
+      
+      maxJobsPerTenant: parseInt(process.env.MAX_JOBS_PER_TENANT || '2'),
+      tenantConcurrencyOverrides: Config.parseLimits(process.env.TENANT_CONCURRENCY_OVERRIDES),
+      priorityAgingMinutes: parseFloat(process.env.PRIORITY_AGING_MINUTES || '30'),
       
       batchSize: parseInt(process.env.BATCH_SIZE || '20'),
       maxRetryAttempts: parseInt(process.env.MAX_RETRY_ATTEMPTS || '3'),
       retryDelaySeconds: parseInt(process.env.RETRY_DELAY_SECONDS || '60'),
+      retryMaxDelaySeconds: parseInt(process.env.RETRY_MAX_DELAY_SECONDS || '3600'),
+      poisonJobWorkerThreshold: parseInt(process.env.POISON_JOB_WORKER_THRESHOLD || '3'),
       
       healthPort: parseInt(process.env.HEALTH_PORT || process.env.PORT || '8080'),
       
@@ -110,9 +214,35 @@ export class Config {
       throw new Error(`Configuration validation failed: ${error.message}`);
     }
     
+    // Stable ids let a restarted worker reuse its workers row
+    if (!rawConfig.workerId && value.workerIdSource === 'hostname') {
+      value.workerId = `worker-${value.hostname}`;
+    } else if (!rawConfig.workerId && value.workerIdSource === 'replica') {
+      value.workerId = `worker-replica-${value.workerReplicaIndex}`;
+    }
+    
     return value;
   }
   
+  // "key:limit,key:limit", keyed by user id or job type
+  private static parseLimits(value: string | undefined): Record<string, number> {
+    const limits: Record<string, number> = {};
+    
+    for (const entry of (value || '').split(',')) {
+      const [key, limit] = entry.split(':').map(part => part.trim());
+      if (key && limit) {
+        limits[key] = parseInt(limit);
+      }
+    }
+    
+    return limits;
+  }
+  
+  public static getClaimDurationMinutes(jobType: string): number {
+    const config = Config.getInstance();
+    return config.jobTypeClaimDurationMinutes[jobType] ?? config.jobClaimDurationMinutes;
+  }
+  
   public static validate(): void {
     Config.getInstance();
   }
@@ -0,0 +1,27 @@
+import Joi from 'joi';
+import { Job } from '../services/JobClaimer';
+import {
+  AttributionRepairPayload,
+  AttributionRepairProcessor,
+  ATTRIBUTION_REPAIR_JOB_TYPE
+} from '../services/AttributionRepairProcessor';
+import { JobContext, JobHandler, JobRetryPolicy } from './JobHandler';
+
+const attributionRepairPayloadSchema = Joi.object<AttributionRepairPayload>({
+  user_id: Joi.string().required(),
+  sync_job_id: Joi.string().allow(null)
+}).unknown(true);
+
+/** Re-attributes reviews written under the wrong operator. */
+export class AttributionRepairJobHandler implements JobHandler<AttributionRepairPayload> {
+  public readonly jobType = ATTRIBUTION_REPAIR_JOB_TYPE;
+  public readonly displayName = 'Attribution repair';
+  public readonly payloadSchema = attributionRepairPayloadSchema;
+  public readonly timeoutSeconds = 30 * 60;
+  public readonly retryPolicy: JobRetryPolicy = { maxAttempts: 3 };
+
+  public async execute(job: Job, payload: AttributionRepairPayload, context: JobContext): Promise<void> {
+    const processor = new AttributionRepairProcessor(context.supabase);
+    await processor.process(job.id, payload, context.signal);
+  }
+}
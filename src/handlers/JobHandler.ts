@@ -0,0 +1,32 @@
+import Joi from 'joi';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Job } from '../services/JobClaimer';
+import { TaskPoller } from '../services/TaskPoller';
+
+/** How failed attempts are retried. Unset delays fall back to RETRY_DELAY_SECONDS and RETRY_MAX_DELAY_SECONDS. */
+export interface JobRetryPolicy {
+  maxAttempts: number;
+  retryDelaySeconds?: number;
+  retryMaxDelaySeconds?: number;
+}
+
+// What the worker running a job hands its handler
+export interface JobContext {
+  supabase: SupabaseClient;
+  taskPoller: TaskPoller;
+  // Aborted on cancellation, a lost claim, shutdown or timeout
+  signal: AbortSignal;
+}
+
+export interface JobHandler<TPayload = any> {
+  readonly jobType: string;
+  readonly displayName: string;
+  /** Checked when the job is created and again before each attempt. */
+  readonly payloadSchema: Joi.ObjectSchema<TPayload>;
+  /** An attempt still running after this long is aborted and fails. JOB_TYPE_TIMEOUT_SECONDS overrides it. */
+  readonly timeoutSeconds: number;
+  readonly retryPolicy: JobRetryPolicy;
+
+  /** Runs one attempt. Throwing fails it; a PermanentJobError skips the remaining attempts. */
+  execute(job: Job, payload: TPayload, context: JobContext): Promise<void>;
+}
@@ -0,0 +1,64 @@
+import { ReviewSourceRegistry } from '../providers/ReviewSourceRegistry';
+import { AttributionRepairJobHandler } from './AttributionRepairJobHandler';
+import { JobHandler } from './JobHandler';
+import { ReviewImportJobHandler } from './ReviewImportJobHandler';
+import { ReviewStatsJobHandler } from './ReviewStatsJobHandler';
+
+/**
+ * Every job type the workers run, with the handler that runs it. Workers dispatch
+ * and advertise their job types from here and the API validates new jobs against
+ * it, so a new job type only needs a handler registered below.
+ */
+export class JobHandlerRegistry {
+  private static instance: JobHandlerRegistry;
+  private handlers = new Map<string, JobHandler>();
+
+  private constructor() {
+    for (const provider of ReviewSourceRegistry.getInstance().getAll()) {
+      this.register(new ReviewImportJobHandler(provider));
+    }
+    this.register(new AttributionRepairJobHandler());
+    this.register(new ReviewStatsJobHandler());
+  }
+
+  public static getInstance(): JobHandlerRegistry {
+    if (!JobHandlerRegistry.instance) {
+      JobHandlerRegistry.instance = new JobHandlerRegistry();
+    }
+    return JobHandlerRegistry.instance;
+  }
+
+  public register(handler: JobHandler): void {
+    if (this.handlers.has(handler.jobType)) {
+      throw new Error(`Job handler already registered for job type: ${handler.jobType}`);
+    }
+    this.handlers.set(handler.jobType, handler);
+  }
+
+  public get(jobType: string): JobHandler | undefined {
+    return this.handlers.get(jobType);
+  }
+
+  public getAll(): JobHandler[] {
+    return Array.from(this.handlers.values());
+  }
+
+  public getJobTypes(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  /** Checks a payload against its job type's schema. Returns the payload with defaults applied, or an error message. */
+  public validatePayload(jobType: string, payload: unknown): { payload: any; error: string | null } {
+    const handler = this.get(jobType);
+    if (!handler) {
+      return { payload, error: `Unsupported job type: ${jobType}` };
+    }
+
+    const { value, error } = handler.payloadSchema.validate(payload ?? {});
+    if (error) {
+      return { payload, error: `Invalid ${handler.displayName} payload: ${error.message}` };
+    }
+
+    return { payload: value, error: null };
+  }
+}
@@ -0,0 +1,39 @@
+import Joi from 'joi';
+import { Job } from '../services/JobClaimer';
+import { JobProcessor } from '../services/JobProcessor';
+import { ReviewImportPayload, ReviewSourceProvider } from '../providers/ReviewSourceProvider';
+import { JobContext, JobHandler, JobRetryPolicy } from './JobHandler';
+
+// Provider-specific identifiers resolved at creation (url_path, domain, alias...) ride along as unknown keys
+const reviewImportPayloadSchema = Joi.object<ReviewImportPayload>({
+  user_id: Joi.string().required(),
+  url: Joi.string().allow('', null),
+  place_id: Joi.string().allow('', null),
+  cid: Joi.string().allow('', null),
+  full_history: Joi.boolean().default(false),
+  business_name: Joi.string().allow('', null),
+  location_code: Joi.number().integer(),
+  language_code: Joi.string(),
+  sync_job_id: Joi.string(),
+  priority: Joi.number().integer()
+}).unknown(true);
+
+/** Imports a listing's reviews from the review source the job type belongs to. */
+export class ReviewImportJobHandler implements JobHandler<ReviewImportPayload> {
+  public readonly jobType: string;
+  public readonly displayName: string;
+  public readonly payloadSchema = reviewImportPayloadSchema;
+  // Long enough for a full-history import waiting on several DataForSEO tasks
+  public readonly timeoutSeconds = 60 * 60;
+  public readonly retryPolicy: JobRetryPolicy = { maxAttempts: 3 };
+
+  constructor(private provider: ReviewSourceProvider) {
+    this.jobType = provider.jobType;
+    this.displayName = `${provider.displayName} import`;
+  }
+
+  public async execute(job: Job, payload: ReviewImportPayload, context: JobContext): Promise<void> {
+    const processor = new JobProcessor(context.supabase, context.taskPoller);
+    await processor.processReviewImport(job.id, this.provider, payload, context.signal);
+  }
+}
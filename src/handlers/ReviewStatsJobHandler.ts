@@ -0,0 +1,23 @@
+import Joi from 'joi';
+import { Job } from '../services/JobClaimer';
+import { REVIEW_STATS_JOB_TYPE, ReviewStatsPayload, ReviewStatsProcessor } from '../services/ReviewStatsProcessor';
+import { JobContext, JobHandler, JobRetryPolicy } from './JobHandler';
+
+const reviewStatsPayloadSchema = Joi.object<ReviewStatsPayload>({
+  user_id: Joi.string().required(),
+  platform: Joi.string().allow(null)
+}).unknown(true);
+
+/** Recomputes an operator's rating stats, typically as a follow-up of an import. */
+export class ReviewStatsJobHandler implements JobHandler<ReviewStatsPayload> {
+  public readonly jobType = REVIEW_STATS_JOB_TYPE;
+  public readonly displayName = 'Rating stats recompute';
+  public readonly payloadSchema = reviewStatsPayloadSchema;
+  public readonly timeoutSeconds = 10 * 60;
+  public readonly retryPolicy: JobRetryPolicy = { maxAttempts: 3 };
+
+  public async execute(job: Job, payload: ReviewStatsPayload, context: JobContext): Promise<void> {
+    const processor = new ReviewStatsProcessor(context.supabase);
+    await processor.process(job.id, payload, context.signal);
+  }
+}
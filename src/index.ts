@@ -5,6 +5,9 @@ import { createClient } from '@supabase/supabase-js';
 import { WorkerManager } from './services/WorkerManager';
 import { JobAPI } from './api/JobAPI';
 import { EnhancedJobAPI } from './api/EnhancedJobAPI';
+import { DataForSEOCallbackAPI } from './api/DataForSEOCallbackAPI';
+import { AdminAPI } from './api/AdminAPI';
+import { AuthMiddleware } from './api/AuthMiddleware';
 import { Logger } from './utils/Logger';
 import { Config } from './config/Config';
 
@@ -28,9 +31,19 @@ async function main() {
     const app = express();
     const jobAPI = new JobAPI(supabase);
     const enhancedJobAPI = new EnhancedJobAPI(supabase);
+    const dataForSEOCallbackAPI = new DataForSEOCallbackAPI(supabase);
+    const adminAPI = new AdminAPI(supabase);
+    const auth = new AuthMiddleware(supabase);
+    
+    // Set on SIGTERM so load balancers stop routing here while jobs drain
+    let draining = false;
     
     // Middleware
     app.use(cors());
+    
+    // DataForSEO postbacks carry whole task results, so they get their own body limit
+    app.post('/api/dataforseo/postback', express.json({ limit: '50mb' }), dataForSEOCallbackAPI.handlePostback);
+    
     app.use(express.json());
     
     // Root endpoint
@@ -42,6 +55,7 @@ async function main() {
         timestamp: new Date().toISOString(),
         features: [
           'TripAdvisor URL validation and locking',
+          'Google Reviews, Trustpilot and Yelp import',
           'Enhanced sync capabilities',
           'Comprehensive status monitoring',
           'Legacy API compatibility',
@@ -50,6 +64,11 @@ async function main() {
         endpoints: {
           legacy: [
             'POST /api/jobs/tripadvisor',
+            'POST /api/jobs/google',
+            'POST /api/jobs/trustpilot',
+            'POST /api/jobs/yelp',
+            'POST /api/jobs/attribution-repair',
+            'POST /api/jobs/:id/cancel',
             'GET /api/jobs/:id/status',
             'GET /api/jobs',
             'GET /api/jobs/:id/reviews'
@@ -58,9 +77,27 @@ async function main() {
             'POST /api/tripadvisor/validate-url',
             'POST /api/tripadvisor/setup-url',
             'GET /api/tripadvisor/lock-status/:userId',
+            'POST /api/trustpilot/validate-url',
+            'POST /api/yelp/validate-url',
             'POST /api/tripadvisor/trigger-sync',
             'GET /api/sync/status/:userId'
           ],
+          callbacks: [
+            'POST /api/dataforseo/postback',
+            'GET /api/dataforseo/pingback'
+          ],
+          admin: [
+            'GET /api/admin/dead-letter',
+            'POST /api/admin/dead-letter/requeue',
+            'POST /api/admin/dead-letter/discard',
+            'POST /api/admin/dead-letter/import-failed',
+            'GET /api/admin/workers',
+            'POST /api/admin/workers/:id/drain',
+            'POST /api/admin/workers/:id/pause',
+            'POST /api/admin/workers/:id/resume',
+            'POST /api/admin/job-types/:jobType/pause',
+            'POST /api/admin/job-types/:jobType/resume'
+          ],
           health: [
             'GET /health',
             'GET /api/health',
@@ -70,8 +107,18 @@ async function main() {
       });
     });
 
+    // Job, listing and sync routes need a Supabase access token and only reach the caller's own data;
+    // admin routes need the service role key or an admin user. Callbacks and health checks stay open.
+    app.use(['/api/jobs', '/api/tripadvisor', '/api/trustpilot', '/api/yelp', '/api/sync'], auth.requireUser);
+    app.use('/api/admin', auth.requireAdmin);
+    
     // ===== EXISTING API ROUTES (PRESERVED) =====
     app.post('/api/jobs/tripadvisor', jobAPI.createTripAdvisorJob);
+    app.post('/api/jobs/google', jobAPI.createGoogleReviewsJob);
+    app.post('/api/jobs/trustpilot', jobAPI.createTrustpilotJob);
+    app.post('/api/jobs/yelp', jobAPI.createYelpJob);
+    app.post('/api/jobs/attribution-repair', jobAPI.createAttributionRepairJob);
+    app.post('/api/jobs/:id/cancel', jobAPI.cancelJob);
     app.get('/api/jobs/:id/status', jobAPI.getJobStatus);
     app.get('/api/jobs', jobAPI.listUserJobs);
     app.get('/api/jobs/:id/reviews', jobAPI.getJobReviews);
@@ -83,19 +130,46 @@ async function main() {
     app.post('/api/tripadvisor/setup-url', enhancedJobAPI.setupTripAdvisorURL);
     app.get('/api/tripadvisor/lock-status/:userId', enhancedJobAPI.getTripAdvisorLockStatus);
     
+    // Trustpilot and Yelp URL validation
+    app.post('/api/trustpilot/validate-url', enhancedJobAPI.validateTrustpilotURL);
+    app.post('/api/yelp/validate-url', enhancedJobAPI.validateYelpURL);
+    
     // Enhanced Sync Management
     app.post('/api/tripadvisor/trigger-sync', enhancedJobAPI.triggerEnhancedSync);
     app.get('/api/sync/status/:userId', enhancedJobAPI.getComprehensiveSyncStatus);
     
+    // DataForSEO task callbacks
+    app.get('/api/dataforseo/pingback', dataForSEOCallbackAPI.handlePingback);
+    
+    // Dead-letter queue administration
+    app.get('/api/admin/dead-letter', adminAPI.listDeadLetterJobs);
+    app.post('/api/admin/dead-letter/requeue', adminAPI.requeueDeadLetterJobs);
+    app.post('/api/admin/dead-letter/discard', adminAPI.discardDeadLetterJobs);
+    app.post('/api/admin/dead-letter/import-failed', adminAPI.importFailedJobs);
+    app.get('/api/admin/workers', adminAPI.listWorkers);
+    app.post('/api/admin/workers/:id/drain', adminAPI.drainWorker);
+    app.post('/api/admin/workers/:id/pause', adminAPI.pauseWorker);
+    app.post('/api/admin/workers/:id/resume', adminAPI.resumeWorker);
+    app.post('/api/admin/job-types/:jobType/pause', adminAPI.pauseJobType);
+    app.post('/api/admin/job-types/:jobType/resume', adminAPI.resumeJobType);
+    
     // ===== HEALTH AND STATUS ENDPOINTS =====
     
     // Health check endpoint (duplicate of health server for convenience)
     app.get('/api/health', (req, res) => {
+      if (draining) {
+        res.status(503).json({ status: 'draining', service: 'tourreviewai-enhanced-api' });
+        return;
+      }
       res.json({ status: 'healthy', service: 'tourreviewai-enhanced-api' });
     });
 
     // Basic health check (for Railway)
     app.get('/health', (req, res) => {
+      if (draining) {
+        res.status(503).send('DRAINING');
+        return;
+      }
       res.send('OK');
     });
 
@@ -110,9 +184,9 @@ async function main() {
 
         const dbStatus = error ? 'error' : 'connected';
         
-        res.json({
+        res.status(draining ? 503 : 200).json({
           service: 'TourReviewAI Enhanced Worker',
-          status: 'healthy',
+          status: draining ? 'draining' : 'healthy',
           database: dbStatus,
           timestamp: new Date().toISOString(),
           uptime: process.uptime(),
@@ -142,14 +216,33 @@ async function main() {
         availableEndpoints: [
           'GET /',
           'POST /api/jobs/tripadvisor',
+          'POST /api/jobs/google',
+          'POST /api/jobs/trustpilot',
+          'POST /api/jobs/yelp',
+          'POST /api/jobs/attribution-repair',
+          'POST /api/jobs/:id/cancel',
           'GET /api/jobs/:id/status',
           'GET /api/jobs',
           'GET /api/jobs/:id/reviews',
           'POST /api/tripadvisor/validate-url',
           'POST /api/tripadvisor/setup-url',
           'GET /api/tripadvisor/lock-status/:userId',
+          'POST /api/trustpilot/validate-url',
+          'POST /api/yelp/validate-url',
           'POST /api/tripadvisor/trigger-sync',
           'GET /api/sync/status/:userId',
+          'POST /api/dataforseo/postback',
+          'GET /api/dataforseo/pingback',
+          'GET /api/admin/dead-letter',
+          'POST /api/admin/dead-letter/requeue',
+          'POST /api/admin/dead-letter/discard',
+          'POST /api/admin/dead-letter/import-failed',
+          'GET /api/admin/workers',
+          'POST /api/admin/workers/:id/drain',
+          'POST /api/admin/workers/:id/pause',
+          'POST /api/admin/workers/:id/resume',
+          'POST /api/admin/job-types/:jobType/pause',
+          'POST /api/admin/job-types/:jobType/resume',
           'GET /health',
           'GET /api/health',
           'GET /api/status'
@@ -183,6 +276,10 @@ async function main() {
     
     // Graceful shutdown handling
     const shutdown = async (signal: string) => {
+      if (draining) {
+        return;
+      }
+      draining = true;
       logger.info(`📴 Received ${signal}, starting graceful shutdown...`);
       
       try {
@@ -0,0 +1,102 @@
+import { DataForSEOClient } from '../clients/DataForSEOClient';
+import { Logger } from '../utils/Logger';
+import { RetryManager } from '../utils/RetryManager';
+import { TaskFailedError } from '../utils/JobErrors';
+import {
+  NormalizedReview,
+  ReviewImportPayload,
+  ReviewSourceProvider,
+  ReviewSourceTarget,
+  ReviewTaskResult
+} from './ReviewSourceProvider';
+
+// task_get codes for a task that is accepted but not finished yet
+const PENDING_STATUS_CODES = [20100, 40601, 40602];
+
+export abstract class DataForSEOReviewProvider implements ReviewSourceProvider {
+  public abstract readonly platform: string;
+  public abstract readonly jobType: string;
+  public abstract readonly displayName: string;
+  public abstract readonly endpoint: string;
+  public abstract readonly countDepth: number;
+  public abstract readonly incrementalDepth: number;
+
+  // DataForSEO bills depth in pages; depth is rounded up to a page and capped
+  protected abstract readonly depthStep: number;
+  protected abstract readonly maxDepth: number;
+
+  protected logger = Logger.getInstance();
+  private retryManager = new RetryManager();
+
+  constructor(protected dataForSEOClient: DataForSEOClient) {}
+
+  public abstract resolveSource(payload: ReviewImportPayload): ReviewSourceTarget;
+
+  public abstract normalizeReview(item: any): NormalizedReview;
+
+  protected abstract buildTask(target: ReviewSourceTarget, payload: ReviewImportPayload, depth: number): Record<string, any>;
+
+  public async createTask(
+    target: ReviewSourceTarget,
+    payload: ReviewImportPayload,
+    depth: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const roundedDepth = Math.ceil(Math.min(depth, this.maxDepth) / this.depthStep) * this.depthStep;
+    const task = {
+      ...this.buildTask(target, payload, roundedDepth),
+      ...this.dataForSEOClient.getCallbackOptions()
+    };
+
+    this.logger.info(`📡 Creating DataForSEO ${this.displayName} task with depth ${roundedDepth} (requested: ${depth})`);
+
+    const taskId = await this.retryManager.executeWithRetry(
+      async () => {
+        const result = await this.dataForSEOClient.createTask(this.endpoint, [task], signal);
+        return result.tasks[0].id;
+      },
+      {
+        maxAttempts: 3,
+        delayMs: 1000,
+        backoffMultiplier: 2,
+        retryCondition: () => !signal?.aborted
+      }
+    );
+
+    this.logger.info(`⏳ DataForSEO task created: ${taskId}`);
+    return taskId;
+  }
+
+  public async fetchTaskResult(taskId: string): Promise<ReviewTaskResult> {
+    const response = await this.dataForSEOClient.getTaskResult(this.endpoint, taskId);
+    return this.parseTaskResult(response.tasks?.[0]);
+  }
+
+  public parseTaskResult(task: any): ReviewTaskResult {
+    if (!task || PENDING_STATUS_CODES.includes(task.status_code)) {
+      return { status: 'pending' };
+    }
+
+    if (task.status_code !== 20000) {
+      throw new TaskFailedError(task.id, task.status_code, task.status_message);
+    }
+
+    if (!Array.isArray(task.result) || task.result.length === 0) {
+      this.logger.warn(`⚠️ DataForSEO task completed but returned no results for task: ${task.id}`);
+      return { status: 'ready', result: { items: [], reviews_count: 0 } };
+    }
+
+    return { status: 'ready', result: task.result[0] };
+  }
+
+  public getIncrementalCursor(item: any): string | null {
+    return item.timestamp || null;
+  }
+
+  protected titleCase(slug: string): string {
+    return slug
+      .split('-')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+}
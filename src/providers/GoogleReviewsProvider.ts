@@ -0,0 +1,70 @@
+import { DataForSEOReviewProvider } from './DataForSEOReviewProvider';
+import { NormalizedReview, ReviewImportPayload, ReviewSourceTarget, UNKNOWN_BUSINESS_ID } from './ReviewSourceProvider';
+import { GooglePlaceResolver } from '../utils/GooglePlaceResolver';
+
+interface GoogleReview {
+  review_id: string;
+  rating?: { value: number };
+  review_text?: string;
+  original_review_text?: string;
+  profile_name?: string;
+  profile_image_url?: string;
+  review_url?: string;
+  timestamp?: string;
+  [key: string]: any;
+}
+
+export class GoogleReviewsProvider extends DataForSEOReviewProvider {
+  public readonly platform = 'google';
+  public readonly jobType = 'google_reviews_import';
+  public readonly displayName = 'Google Reviews';
+  public readonly endpoint = 'business_data/google/reviews';
+  public readonly countDepth = 10;
+  public readonly incrementalDepth = 20;
+
+  // Google caps depth at 4490 and bills per 10 reviews
+  protected readonly depthStep = 10;
+  protected readonly maxDepth = 4490;
+
+  public resolveSource(payload: ReviewImportPayload): ReviewSourceTarget {
+    if (!payload.place_id && !payload.cid && !payload.url) {
+      throw new Error('One of place_id, cid or url is required');
+    }
+
+    const place = GooglePlaceResolver.resolve(payload);
+    if (!place) {
+      throw new Error('Invalid Google place: provide a valid place_id, cid or Google Maps URL');
+    }
+
+    return {
+      businessId: place.placeId || place.cid || UNKNOWN_BUSINESS_ID,
+      businessName: payload.business_name || 'Google Business',
+      sourceUrl: place.sourceUrl || null,
+      params: place.placeId ? { place_id: place.placeId } : { cid: place.cid }
+    };
+  }
+
+  protected buildTask(target: ReviewSourceTarget, payload: ReviewImportPayload, depth: number): Record<string, any> {
+    return {
+      ...target.params,
+      location_code: payload.location_code || 2840, // United States
+      language_code: payload.language_code || 'en',
+      sort_by: 'newest',
+      priority: 2,
+      depth
+    };
+  }
+
+  public normalizeReview(review: GoogleReview): NormalizedReview {
+    return {
+      external_id: review.review_id || `google_${Date.now()}_${Math.random()}`,
+      author_name: review.profile_name || 'Anonymous',
+      rating: review.rating?.value || 5,
+      // Prefer the original text over Google's machine translation
+      text: review.original_review_text || review.review_text || '',
+      posted_at: review.timestamp || new Date().toISOString(),
+      author_photo_url: review.profile_image_url || null,
+      review_url: review.review_url || null
+    };
+  }
+}
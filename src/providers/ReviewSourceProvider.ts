@@ -0,0 +1,74 @@
+export interface ReviewImportPayload {
+  user_id: string;
+  url?: string;
+  place_id?: string;
+  cid?: string;
+  full_history: boolean;
+  business_name?: string;
+  location_code?: number;
+  language_code?: string;
+  sync_job_id?: string;
+  priority?: number;
+}
+
+// businessId of a listing whose URL names no business
+export const UNKNOWN_BUSINESS_ID = 'unknown';
+
+// A listing resolved from an import payload
+export interface ReviewSourceTarget {
+  businessId: string;
+  businessName: string;
+  sourceUrl: string | null;
+  // Provider-specific identifiers sent to DataForSEO (url_path, place_id, domain, alias...)
+  params: Record<string, any>;
+}
+
+// Platform-specific columns of a review row; attribution columns are added by the importer
+export interface NormalizedReview {
+  external_id: string;
+  author_name: string;
+  rating: number;
+  text: string;
+  posted_at: string;
+  author_photo_url: string | null;
+  review_url: string | null;
+}
+
+export type ReviewTaskResult =
+  | { status: 'pending' }
+  | { status: 'ready'; result: any };
+
+export interface ReviewSourceProvider {
+  readonly platform: string;
+  readonly jobType: string;
+  readonly displayName: string;
+  readonly endpoint: string;
+  // Depth of the cheap phase-1 task that reports the listing's review count
+  readonly countDepth: number;
+  // Depth of a newest-first incremental sync
+  readonly incrementalDepth: number;
+
+  /** Validate the payload and resolve the listing it points at. Throws with a user-facing message. */
+  resolveSource(payload: ReviewImportPayload): ReviewSourceTarget;
+
+  /** Post a DataForSEO task for the listing and return its task id. */
+  createTask(target: ReviewSourceTarget, payload: ReviewImportPayload, depth: number, signal?: AbortSignal): Promise<string>;
+
+  /** Fetch a task's result once; resolves pending while DataForSEO is still working. */
+  fetchTaskResult(taskId: string): Promise<ReviewTaskResult>;
+
+  /** Interpret a raw DataForSEO task object, whether fetched or delivered by a postback. */
+  parseTaskResult(task: any): ReviewTaskResult;
+
+  normalizeReview(item: any): NormalizedReview;
+
+  /** Date of an item used to skip reviews older than the last sync. */
+  getIncrementalCursor(item: any): string | null;
+
+  /**
+   * Whether a stored raw item belongs to the listing. Used to repair rows imported
+   * before reviews carried their own source_url; left out by providers whose items
+   * don't name their listing, whose rows the repair then skips.
+   */
+  matchesListing?(item: any, target: ReviewSourceTarget): boolean;
+}
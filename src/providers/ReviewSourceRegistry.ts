@@ -0,0 +1,54 @@
+import { DataForSEOClient } from '../clients/DataForSEOClient';
+import { ReviewSourceProvider } from './ReviewSourceProvider';
+import { TripAdvisorProvider } from './TripAdvisorProvider';
+import { GoogleReviewsProvider } from './GoogleReviewsProvider';
+import { TrustpilotProvider } from './TrustpilotProvider';
+import { YelpProvider } from './YelpProvider';
+
+export class ReviewSourceRegistry {
+  private static instance: ReviewSourceRegistry;
+  private providers = new Map<string, ReviewSourceProvider>();
+
+  private constructor() {
+    const dataForSEOClient = new DataForSEOClient();
+
+    this.register(new TripAdvisorProvider(dataForSEOClient));
+    this.register(new GoogleReviewsProvider(dataForSEOClient));
+    this.register(new TrustpilotProvider(dataForSEOClient));
+    this.register(new YelpProvider(dataForSEOClient));
+  }
+
+  public static getInstance(): ReviewSourceRegistry {
+    if (!ReviewSourceRegistry.instance) {
+      ReviewSourceRegistry.instance = new ReviewSourceRegistry();
+    }
+    return ReviewSourceRegistry.instance;
+  }
+
+  public register(provider: ReviewSourceProvider): void {
+    if (this.providers.has(provider.jobType)) {
+      throw new Error(`Review source already registered for job type: ${provider.jobType}`);
+    }
+    this.providers.set(provider.jobType, provider);
+  }
+
+  public getByJobType(jobType: string): ReviewSourceProvider | undefined {
+    return this.providers.get(jobType);
+  }
+
+  public getByPlatform(platform: string): ReviewSourceProvider | undefined {
+    return this.getAll().find(provider => provider.platform === platform);
+  }
+
+  public getAll(): ReviewSourceProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  public getJobTypes(): string[] {
+    return this.getAll().map(provider => provider.jobType);
+  }
+
+  public getPlatforms(): string[] {
+    return this.getAll().map(provider => provider.platform);
+  }
+}
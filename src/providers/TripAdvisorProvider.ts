@@ -0,0 +1,86 @@
+import { DataForSEOReviewProvider } from './DataForSEOReviewProvider';
+import { NormalizedReview, ReviewImportPayload, ReviewSourceTarget, UNKNOWN_BUSINESS_ID } from './ReviewSourceProvider';
+
+interface TripAdvisorReview {
+  review_id: string;
+  title?: string;
+  rating: { value: number };
+  review_text: string;
+  user_profile?: { name: string; photo_url?: string };
+  timestamp: string;
+  date_of_visit?: string;
+  review_url?: string;
+  [key: string]: any;
+}
+
+export class TripAdvisorProvider extends DataForSEOReviewProvider {
+  public readonly platform = 'tripadvisor';
+  public readonly jobType = 'tripadvisor_import';
+  public readonly displayName = 'TripAdvisor';
+  public readonly endpoint = 'business_data/tripadvisor/reviews';
+  public readonly countDepth = 10;
+  public readonly incrementalDepth = 20;
+
+  protected readonly depthStep = 10;
+  protected readonly maxDepth = 4490;
+
+  public resolveSource(payload: ReviewImportPayload): ReviewSourceTarget {
+    if (!payload.url) {
+      throw new Error('url is required');
+    }
+
+    if (!payload.url.includes('tripadvisor.com')) {
+      throw new Error('Invalid TripAdvisor URL');
+    }
+
+    const pathMatch = payload.url.match(/tripadvisor\.com\/(.+)$/);
+    if (!pathMatch) {
+      throw new Error('Invalid TripAdvisor URL format');
+    }
+
+    // Extract business info from URL
+    const businessMatch = payload.url.match(/\/([^\/]+)\.html$/);
+    const businessId = businessMatch ? businessMatch[1] : UNKNOWN_BUSINESS_ID;
+    const businessName = payload.business_name ||
+      businessId.replace(/-/g, ' ').replace(/^.*Reviews /, '') ||
+      'TripAdvisor Business';
+
+    return {
+      businessId,
+      businessName,
+      sourceUrl: payload.url,
+      params: { url_path: pathMatch[1] }
+    };
+  }
+
+  protected buildTask(target: ReviewSourceTarget, payload: ReviewImportPayload, depth: number): Record<string, any> {
+    return {
+      url_path: target.params.url_path,
+      location_code: 1003854, // United States location code
+      priority: 2,
+      depth
+    };
+  }
+
+  public normalizeReview(review: TripAdvisorReview): NormalizedReview {
+    return {
+      external_id: review.review_id || `tripadvisor_${Date.now()}_${Math.random()}`,
+      author_name: review.user_profile?.name || 'Anonymous',
+      rating: review.rating?.value || 5,
+      text: review.review_text || '',
+      posted_at: review.timestamp || review.date_of_visit || new Date().toISOString(),
+      author_photo_url: review.user_profile?.photo_url || null,
+      review_url: review.review_url || null
+    };
+  }
+
+  public matchesListing(review: TripAdvisorReview, target: ReviewSourceTarget): boolean {
+    // Review URLs embed the listing's location id: /ShowUserReviews-g45963-d1234567-r9876-...
+    const locationId = target.businessId.match(/-(d\d+)-/);
+    return !!locationId && !!review.review_url && review.review_url.includes(`-${locationId[1]}-`);
+  }
+
+  public override getIncrementalCursor(review: TripAdvisorReview): string | null {
+    return review.timestamp || review.date_of_visit || null;
+  }
+}
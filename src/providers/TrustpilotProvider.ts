@@ -0,0 +1,67 @@
+import { DataForSEOReviewProvider } from './DataForSEOReviewProvider';
+import { NormalizedReview, ReviewImportPayload, ReviewSourceTarget } from './ReviewSourceProvider';
+import { TrustpilotDomainResolver } from '../utils/TrustpilotDomainResolver';
+
+interface TrustpilotReview {
+  review_id?: string;
+  url?: string;
+  title?: string;
+  rating?: { value: number };
+  review_text?: string;
+  timestamp?: string;
+  user_profile?: { name?: string; image_url?: string };
+  [key: string]: any;
+}
+
+export class TrustpilotProvider extends DataForSEOReviewProvider {
+  public readonly platform = 'trustpilot';
+  public readonly jobType = 'trustpilot_import';
+  public readonly displayName = 'Trustpilot';
+  public readonly endpoint = 'business_data/trustpilot/reviews';
+  // Trustpilot pages hold 20 reviews, so one page is the smallest useful request
+  public readonly countDepth = 20;
+  public readonly incrementalDepth = 20;
+
+  protected readonly depthStep = 20;
+  protected readonly maxDepth = 5000;
+
+  public resolveSource(payload: ReviewImportPayload): ReviewSourceTarget {
+    if (!payload.url) {
+      throw new Error('url is required');
+    }
+
+    const target = TrustpilotDomainResolver.resolve(payload.url);
+    if (!target) {
+      throw new Error('Invalid Trustpilot URL or domain');
+    }
+
+    return {
+      businessId: target.domain,
+      businessName: payload.business_name || target.domain,
+      sourceUrl: target.sourceUrl,
+      params: { domain: target.domain }
+    };
+  }
+
+  protected buildTask(target: ReviewSourceTarget, payload: ReviewImportPayload, depth: number): Record<string, any> {
+    return {
+      domain: target.params.domain,
+      sort_by: 'recency',
+      priority: 2,
+      depth
+    };
+  }
+
+  public normalizeReview(review: TrustpilotReview): NormalizedReview {
+    return {
+      // Trustpilot items carry no id field; the review URL ends with it
+      external_id: review.review_id || review.url?.split('/').pop() || `trustpilot_${Date.now()}_${Math.random()}`,
+      author_name: review.user_profile?.name || 'Anonymous',
+      rating: review.rating?.value || 5,
+      text: [review.title, review.review_text].filter(Boolean).join('\n\n'),
+      posted_at: review.timestamp || new Date().toISOString(),
+      author_photo_url: review.user_profile?.image_url || null,
+      review_url: review.url || null
+    };
+  }
+}
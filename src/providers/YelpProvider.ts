@@ -0,0 +1,66 @@
+import { DataForSEOReviewProvider } from './DataForSEOReviewProvider';
+import { NormalizedReview, ReviewImportPayload, ReviewSourceTarget } from './ReviewSourceProvider';
+import { YelpAliasResolver } from '../utils/YelpAliasResolver';
+
+interface YelpReview {
+  review_id: string;
+  review_url?: string;
+  rating?: { value: number };
+  review_text?: string;
+  timestamp?: string;
+  user_profile?: { name?: string; image_url?: string };
+  [key: string]: any;
+}
+
+export class YelpProvider extends DataForSEOReviewProvider {
+  public readonly platform = 'yelp';
+  public readonly jobType = 'yelp_import';
+  public readonly displayName = 'Yelp';
+  public readonly endpoint = 'business_data/yelp/reviews';
+  public readonly countDepth = 10;
+  public readonly incrementalDepth = 20;
+
+  // Yelp is paged by 10 reviews
+  protected readonly depthStep = 10;
+  protected readonly maxDepth = 4490;
+
+  public resolveSource(payload: ReviewImportPayload): ReviewSourceTarget {
+    if (!payload.url) {
+      throw new Error('url is required');
+    }
+
+    const target = YelpAliasResolver.resolve(payload.url);
+    if (!target) {
+      throw new Error('Invalid Yelp URL or business alias');
+    }
+
+    return {
+      businessId: target.alias,
+      businessName: payload.business_name || this.titleCase(target.alias),
+      sourceUrl: target.sourceUrl,
+      params: { alias: target.alias }
+    };
+  }
+
+  protected buildTask(target: ReviewSourceTarget, payload: ReviewImportPayload, depth: number): Record<string, any> {
+    return {
+      alias: target.params.alias,
+      language_code: payload.language_code || 'en',
+      sort_by: 'date_desc',
+      priority: 2,
+      depth
+    };
+  }
+
+  public normalizeReview(review: YelpReview): NormalizedReview {
+    return {
+      external_id: review.review_id || `yelp_${Date.now()}_${Math.random()}`,
+      author_name: review.user_profile?.name || 'Anonymous',
+      rating: review.rating?.value || 5,
+      text: review.review_text || '',
+      posted_at: review.timestamp || new Date().toISOString(),
+      author_photo_url: review.user_profile?.image_url || null,
+      review_url: review.review_url || null
+    };
+  }
+}
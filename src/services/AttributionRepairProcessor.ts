@@ -0,0 +1,193 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from '../utils/Logger';
+import { ReviewSourceRegistry } from '../providers/ReviewSourceRegistry';
+import { ReviewImportPayload, ReviewSourceTarget } from '../providers/ReviewSourceProvider';
+import { PermanentJobError, throwIfCancelled } from '../utils/JobErrors';
+
+export const ATTRIBUTION_REPAIR_JOB_TYPE = 'review_attribution_repair';
+
+export interface AttributionRepairPayload {
+  user_id: string;
+  sync_job_id?: string;
+}
+
+interface SyncJobRow {
+  id: string;
+  platform: string;
+  tour_operator_id: string;
+  source_url: string;
+  source_business_id: string | null;
+  source_business_name: string | null;
+}
+
+interface RepairSummary {
+  sync_jobs_checked: number;
+  reviews_scanned: number;
+  reviews_reattributed: number;
+  skipped_sync_jobs: string[];
+}
+
+const PAGE_SIZE = 500;
+
+// The importer used to write every review under this operator and business name
+const LEGACY_TOUR_OPERATOR_ID = '55e41290-65af-4e0e-8d4f-6c058f5e0a0f';
+const LEGACY_PLACE_NAME = 'Vegas Jeep Tours';
+
+/**
+ * Re-attributes reviews that the old importer wrote under its hard-coded operator and
+ * business name. For each of the operator's sync jobs, those rows whose raw_data
+ * belongs to that listing are moved to the sync job's operator and business name.
+ * Rows any other operator holds are never touched.
+ */
+export class AttributionRepairProcessor {
+  private logger = Logger.getInstance();
+  private reviewSources = ReviewSourceRegistry.getInstance();
+
+  constructor(private supabase: SupabaseClient) {}
+
+  public async process(jobId: string, payload: AttributionRepairPayload, signal?: AbortSignal): Promise<void> {
+    if (!payload.user_id) {
+      throw new PermanentJobError('user_id is required');
+    }
+
+    this.logger.info(`🔧 Processing attribution repair job ${jobId} for operator ${payload.user_id}`);
+
+    const syncJobs = await this.loadSyncJobs(payload);
+    const summary: RepairSummary = {
+      sync_jobs_checked: 0,
+      reviews_scanned: 0,
+      reviews_reattributed: 0,
+      skipped_sync_jobs: []
+    };
+
+    for (const syncJob of syncJobs) {
+      throwIfCancelled(signal, jobId);
+      await this.repairSyncJob(syncJob, summary);
+    }
+
+    const { error } = await this.supabase
+      .from('job_queue')
+      .update({ result: summary })
+      .eq('id', jobId);
+
+    if (error) {
+      this.logger.warn(`⚠️ Could not store repair summary for job ${jobId}:`, error);
+    }
+
+    this.logger.info(`✅ Attribution repair completed: ${summary.reviews_reattributed} reviews re-attributed`, summary);
+  }
+
+  private async loadSyncJobs(payload: AttributionRepairPayload): Promise<SyncJobRow[]> {
+    let query = this.supabase
+      .from('review_sync_jobs')
+      .select('id, platform, tour_operator_id, source_url, source_business_id, source_business_name')
+      .eq('tour_operator_id', payload.user_id)
+      .not('source_url', 'is', null);
+
+    if (payload.sync_job_id) {
+      query = query.eq('id', payload.sync_job_id);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to load sync jobs: ${error.message}`);
+    }
+
+    if (payload.sync_job_id && (!data || data.length === 0)) {
+      throw new Error(`Sync job ${payload.sync_job_id} not found for this operator`);
+    }
+
+    // One pass per listing is enough
+    const byListing = new Map<string, SyncJobRow>();
+    for (const row of data || []) {
+      byListing.set(`${row.platform}:${row.source_url}`, row);
+    }
+    return Array.from(byListing.values());
+  }
+
+  private async repairSyncJob(syncJob: SyncJobRow, summary: RepairSummary): Promise<void> {
+    const provider = this.reviewSources.getByPlatform(syncJob.platform);
+    // Without a way to tell a listing's raw items apart, scanning can't match anything
+    const matchesListing = provider?.matchesListing?.bind(provider);
+    if (!provider || !matchesListing) {
+      summary.skipped_sync_jobs.push(syncJob.id);
+      return;
+    }
+
+    const payload: ReviewImportPayload = {
+      user_id: syncJob.tour_operator_id,
+      url: syncJob.source_url,
+      full_history: true
+    };
+    if (syncJob.source_business_name) {
+      payload.business_name = syncJob.source_business_name;
+    }
+
+    let target: ReviewSourceTarget;
+    try {
+      target = provider.resolveSource(payload);
+    } catch (error) {
+      this.logger.warn(`⚠️ Skipping sync job ${syncJob.id}: source_url no longer resolves`, error);
+      summary.skipped_sync_jobs.push(syncJob.id);
+      return;
+    }
+
+    summary.sync_jobs_checked++;
+
+    // The legacy rows of this listing already carry its operator and name
+    if (syncJob.tour_operator_id === LEGACY_TOUR_OPERATOR_ID && target.businessName === LEGACY_PLACE_NAME) {
+      return;
+    }
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: rows, error } = await this.supabase
+        .from('tripadvisor_reviews')
+        .select('id, raw_data')
+        .eq('source', provider.platform)
+        .eq('tour_operator_id', LEGACY_TOUR_OPERATOR_ID)
+        .eq('place_name', LEGACY_PLACE_NAME)
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to scan reviews: ${error.message}`);
+      }
+
+      if (!rows || rows.length === 0) {
+        break;
+      }
+
+      summary.reviews_scanned += rows.length;
+
+      const matchingIds = rows
+        .filter(row => row.raw_data && matchesListing(row.raw_data, target))
+        .map(row => row.id);
+
+      if (matchingIds.length > 0) {
+        const { error: updateError } = await this.supabase
+          .from('tripadvisor_reviews')
+          .update({
+            tour_operator_id: syncJob.tour_operator_id,
+            place_name: target.businessName,
+            source_url: syncJob.source_url
+          })
+          .in('id', matchingIds);
+
+        if (updateError) {
+          throw new Error(`Failed to re-attribute reviews: ${updateError.message}`);
+        }
+
+        summary.reviews_reattributed += matchingIds.length;
+        // Updated rows drop out of the legacy filter, so the next page starts earlier
+        offset -= matchingIds.length;
+      }
+
+      if (rows.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    this.logger.info(`🔧 Sync job ${syncJob.id} (${provider.platform}) checked, ${summary.reviews_reattributed} re-attributed so far`);
+  }
+}
@@ -0,0 +1,384 @@
+import Bull from 'bull';
+import Redis from 'ioredis';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Config } from '../config/Config';
+import { Logger } from '../utils/Logger';
+import { Job, JobClaimer } from './JobClaimer';
+import { FailureOutcome, JobAttempt } from './JobRetryScheduler';
+import { FinishedJobStatus, NewJob, QueueBackend } from './QueueBackend';
+import { SupabaseQueueBackend } from './SupabaseQueueBackend';
+
+interface QueuedJobData {
+  job_id: string;
+  // Lets a pop check the tenant cap without loading the row
+  user_id?: string;
+}
+
+interface PushedJob {
+  id: string;
+  user_id: string;
+  job_type: string;
+  priority?: number | null;
+}
+
+// Pending job_queue rows loaded per page on each promotion pass
+const SYNC_BATCH_SIZE = 200;
+
+// How long a job skipped for its tenant's cap stays out of Redis before it is pushed again
+const CAPPED_TENANT_REPUSH_MS = 5000;
+
+// Only the worker holding this lease syncs pending rows; it renews the lease on every pass,
+// and another worker takes over once a leader stopped for this long
+const SYNC_LEADER_KEY = 'jobs:pending-sync-leader';
+const SYNC_LEADER_LEASE_MS = 60 * 1000;
+
+// Renews the lease only while this worker still holds it
+const RENEW_LEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+/**
+ * Queues claimable jobs in Redis with one Bull queue per job type, so finding the
+ * next job is a Redis pop instead of a database query. Redis only holds jobs that are ready to
+ * run: delays and retry backoff stay in job_queue as run_at and are pushed to Bull
+ * once due. Every status change is mirrored into job_queue through
+ * SupabaseQueueBackend, and a job is only handed out after its row was claimed
+ * there, so a job cancelled or claimed elsewhere is dropped from Redis on pop.
+ *
+ * Unlike JobClaimer, jobs are not handed out round-robin across tenants: each queue
+ * pops by priority, then oldest first, and tenants are only kept apart by their
+ * concurrency cap. Use the supabase backend where fairness between operators matters.
+ */
+export class BullQueueBackend implements QueueBackend {
+  public readonly name = 'bull';
+  private config = Config.getInstance();
+  private logger = Logger.getInstance();
+  private mirror: SupabaseQueueBackend;
+  private jobClaimer: JobClaimer;
+  private queues = new Map<string, Bull.Queue<QueuedJobData>>();
+  private activeJobs = new Map<string, Bull.Job<QueuedJobData>>();
+  private repushTimers = new Set<NodeJS.Timeout>();
+  private redis: Redis | null = null;
+
+  constructor(private supabase: SupabaseClient) {
+    this.mirror = new SupabaseQueueBackend(supabase);
+    this.jobClaimer = new JobClaimer(supabase);
+  }
+
+  public async enqueue(jobs: NewJob[]): Promise<any[]> {
+    const rows = await this.mirror.enqueue(jobs);
+
+    for (const row of rows) {
+      if (row.status !== 'pending') {
+        continue;
+      }
+
+      try {
+        await this.push(row);
+      } catch (error) {
+        // The row is in job_queue, so the next sync pushes it
+        this.logger.warn(`⚠️ Failed to push job ${row.id} to Redis:`, error);
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Pops jobs one type at a time so a busy job type can't starve the others. Jobs
+   * of a tenant at its concurrency cap are dropped from Redis and pushed again
+   * after CAPPED_TENANT_REPUSH_MS.
+   */
+  public async claim(slots: number, jobTypes: string[], jobTypeSlots: Record<string, number> = {}): Promise<Job[]> {
+    if (slots <= 0 || jobTypes.length === 0) {
+      return [];
+    }
+
+    const activeCounts = await this.jobClaimer.countActiveJobs();
+    const typeSlots = { ...jobTypeSlots };
+    const claimed: Job[] = [];
+    let remainingPops = Math.max(slots * 10, 50);
+    let types = jobTypes.filter(jobType => typeSlots[jobType] === undefined || typeSlots[jobType] > 0);
+
+    while (claimed.length < slots && types.length > 0 && remainingPops > 0) {
+      for (const jobType of [...types]) {
+        if (claimed.length >= slots || remainingPops <= 0) {
+          break;
+        }
+
+        remainingPops--;
+        const result = await this.claimNext(jobType, activeCounts);
+        if (result === undefined) {
+          types = types.filter(type => type !== jobType);
+        } else if (result) {
+          claimed.push(result);
+          if (typeSlots[jobType] !== undefined && --typeSlots[jobType] <= 0) {
+            types = types.filter(type => type !== jobType);
+          }
+        }
+      }
+    }
+
+    return claimed;
+  }
+
+  public async extend(jobId: string, jobType: string): Promise<boolean> {
+    const held = await this.mirror.extend(jobId, jobType);
+
+    const bullJob = this.activeJobs.get(jobId);
+    if (!held) {
+      // The released row is pushed to Redis again by the next sync
+      this.activeJobs.delete(jobId);
+    } else if (bullJob) {
+      try {
+        await bullJob.extendLock(this.getLockDuration(jobType));
+      } catch (error) {
+        this.logger.warn(`⚠️ Failed to extend Redis lock on job ${jobId}:`, error);
+      }
+    }
+
+    return held;
+  }
+
+  public async complete(jobId: string, status: FinishedJobStatus, data: Record<string, any> = {}): Promise<void> {
+    await this.mirror.complete(jobId, status, data);
+    await this.dropActive(jobId);
+  }
+
+  public async release(jobId: string): Promise<void> {
+    await this.mirror.release(jobId);
+
+    const bullJob = this.activeJobs.get(jobId);
+    await this.dropActive(jobId);
+
+    // Push it straight back rather than waiting for the next sync
+    if (bullJob) {
+      await bullJob.queue.add(bullJob.data, { jobId, priority: bullJob.opts.priority ?? 2 });
+    }
+  }
+
+  // Retries go back to job_queue as retry_scheduled and are pushed again once due
+  public async fail(jobId: string, attempt: JobAttempt | null, error: unknown): Promise<FailureOutcome> {
+    const outcome = await this.mirror.fail(jobId, attempt, error);
+    await this.dropActive(jobId);
+    return outcome;
+  }
+
+  public async promoteDueJobs(): Promise<number> {
+    const promoted = await this.mirror.promoteDueJobs();
+    await this.syncPendingJobs();
+    return promoted;
+  }
+
+  public async close(): Promise<void> {
+    this.repushTimers.forEach(timer => clearTimeout(timer));
+    this.repushTimers.clear();
+    await Promise.all(Array.from(this.queues.values()).map(queue => queue.close()));
+    this.queues.clear();
+    if (this.redis) {
+      await this.redis.quit();
+      this.redis = null;
+    }
+  }
+
+  /**
+   * Pops and claims one job: the tenant cap is checked against the job data and the
+   * claim is the only database round trip. Undefined when the queue is empty, null
+   * when the popped job was dropped.
+   */
+  private async claimNext(jobType: string, activeCounts: Map<string, number>): Promise<Job | null | undefined> {
+    const queue = this.getQueue(jobType);
+
+    // getNextJob blocks on an empty queue, so check first
+    if (await queue.getWaitingCount() === 0) {
+      return undefined;
+    }
+
+    const bullJob = await queue.getNextJob();
+    if (!bullJob) {
+      return undefined;
+    }
+
+    const jobId = String(bullJob.id);
+    const userId = bullJob.data.user_id;
+
+    // Pushed before user_id was part of the job data; the next sync pushes it again with it
+    if (!userId) {
+      await this.drop(bullJob);
+      return null;
+    }
+
+    const active = activeCounts.get(userId) || 0;
+    if (active >= this.jobClaimer.getTenantLimit(userId)) {
+      await this.drop(bullJob);
+      this.pushLater({ id: jobId, user_id: userId, job_type: jobType, priority: bullJob.opts.priority ?? null });
+      return null;
+    }
+
+    let job: Job | null;
+    try {
+      job = await this.jobClaimer.claim(jobId, jobType);
+    } catch (error) {
+      await this.drop(bullJob);
+      throw error;
+    }
+
+    // Cancelled, or claimed again after its lease expired
+    if (!job) {
+      await this.drop(bullJob);
+      return null;
+    }
+
+    activeCounts.set(userId, active + 1);
+    this.activeJobs.set(jobId, bullJob);
+    this.logger.info(`🎯 Claimed job: ${jobId} (${job.job_type}) for operator ${job.user_id}`);
+
+    return job;
+  }
+
+  // Pushes a job for a capped tenant back once it had time to finish one; the sync covers a worker stopping first
+  private pushLater(row: PushedJob): void {
+    const timer = setTimeout(() => {
+      this.repushTimers.delete(timer);
+      this.push(row).catch(error => {
+        this.logger.warn(`⚠️ Failed to push job ${row.id} back to Redis:`, error);
+      });
+    }, CAPPED_TENANT_REPUSH_MS);
+    timer.unref();
+    this.repushTimers.add(timer);
+  }
+
+  /**
+   * Pushes pending job_queue rows that aren't waiting in Redis: jobs just promoted,
+   * requeued from the dead-letter queue, released after an expired claim, or
+   * inserted without going through enqueue. Pages through every pending row, so a
+   * large backlog can't hide the newer ones. Only one worker of the fleet syncs.
+   */
+  private async syncPendingJobs(): Promise<void> {
+    if (!await this.holdSyncLease()) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    let pushed = 0;
+
+    for (let offset = 0; ; offset += SYNC_BATCH_SIZE) {
+      const { data: rows, error } = await this.supabase
+        .from('job_queue')
+        .select('id, user_id, job_type, priority')
+        .eq('status', 'pending')
+        .or(`run_at.is.null,run_at.lte.${now}`)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + SYNC_BATCH_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load pending jobs: ${error.message}`);
+      }
+
+      for (const row of rows || []) {
+        if (await this.pushIfMissing(row)) {
+          pushed++;
+        }
+      }
+
+      if (!rows || rows.length < SYNC_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (pushed > 0) {
+      this.logger.info(`📤 Pushed ${pushed} pending jobs to Redis`);
+    }
+  }
+
+  private async holdSyncLease(): Promise<boolean> {
+    const redis = this.getRedis();
+    const workerId = this.config.workerId;
+
+    if (await redis.set(SYNC_LEADER_KEY, workerId, 'PX', SYNC_LEADER_LEASE_MS, 'NX') === 'OK') {
+      this.logger.info(`📤 Worker ${workerId} now syncs pending jobs to Redis`);
+      return true;
+    }
+
+    return await redis.eval(RENEW_LEASE_SCRIPT, 1, SYNC_LEADER_KEY, workerId, SYNC_LEADER_LEASE_MS) === 1;
+  }
+
+  private async pushIfMissing(row: PushedJob): Promise<boolean> {
+    const existing = await this.getQueue(row.job_type).getJob(row.id);
+    if (existing) {
+      const state = await existing.getState();
+      if (state === 'waiting' || state === 'paused' || state === 'delayed') {
+        return false;
+      }
+
+      // Left active by a worker that stopped; the remove fails while its lock is held
+      try {
+        await existing.remove();
+      } catch (removeError) {
+        return false;
+      }
+    }
+
+    await this.push(row);
+    return true;
+  }
+
+  private async push(row: PushedJob): Promise<void> {
+    await this.getQueue(row.job_type).add(
+      { job_id: row.id, user_id: row.user_id },
+      // The job_queue id as Bull job id makes pushing the same job twice a no-op
+      { jobId: row.id, priority: row.priority ?? 2 }
+    );
+  }
+
+  private async dropActive(jobId: string): Promise<void> {
+    const bullJob = this.activeJobs.get(jobId);
+    this.activeJobs.delete(jobId);
+
+    if (bullJob) {
+      await this.drop(bullJob);
+    }
+  }
+
+  // Finishing a job removes it from Redis, since removeOnComplete is set on every job
+  private async drop(bullJob: Bull.Job<QueuedJobData>): Promise<void> {
+    try {
+      await bullJob.moveToCompleted('done', true, true);
+    } catch (error) {
+      this.logger.warn(`⚠️ Failed to remove job ${bullJob.id} from Redis:`, error);
+    }
+  }
+
+  private getQueue(jobType: string): Bull.Queue<QueuedJobData> {
+    let queue = this.queues.get(jobType);
+    if (!queue) {
+      queue = new Bull<QueuedJobData>(`jobs:${jobType}`, this.config.redisUrl as string, {
+        settings: {
+          lockDuration: this.getLockDuration(jobType),
+          // Seconds getNextJob blocks when another worker emptied the queue first
+          drainDelay: 1
+        },
+        defaultJobOptions: {
+          removeOnComplete: true,
+          removeOnFail: true
+        }
+      });
+      this.queues.set(jobType, queue);
+    }
+    return queue;
+  }
+
+  private getRedis(): Redis {
+    if (!this.redis) {
+      this.redis = new Redis(this.config.redisUrl as string);
+    }
+    return this.redis;
+  }
+
+  private getLockDuration(jobType: string): number {
+    return Config.getClaimDurationMinutes(jobType) * 60 * 1000;
+  }
+}
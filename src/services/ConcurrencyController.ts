@@ -0,0 +1,153 @@
+import { IntervalHistogram, monitorEventLoopDelay } from 'perf_hooks';
+import { getHeapStatistics } from 'v8';
+import { Config } from '../config/Config';
+import { Logger } from '../utils/Logger';
+
+export type DownstreamService = 'dataforseo' | 'supabase';
+
+export interface ConcurrencySignals {
+  // Heap in use as a share of V8's heap size limit; heapTotal only grows as needed, so
+  // heapUsed / heapTotal sits near 1 long before memory runs short
+  heapUsage: number;
+  eventLoopDelayMs: number;
+  errorRates: Record<DownstreamService, number>;
+}
+
+export interface ConcurrencyChange {
+  previousLimit: number;
+  limit: number;
+  reasons: string[];
+  signals: ConcurrencySignals;
+}
+
+interface DownstreamResult {
+  at: number;
+  ok: boolean;
+}
+
+const ADJUST_INTERVAL_MS = 15000;
+const ERROR_RATE_WINDOW_MS = 5 * 60 * 1000;
+// Fewer calls than this in the window don't say much about the error rate
+const MIN_ERROR_RATE_SAMPLES = 10;
+
+/**
+ * Adapts how many jobs the worker runs at once between minConcurrentJobs and
+ * maxConcurrentJobs. Every adjustment interval it samples heap usage, event-loop
+ * delay and the recent DataForSEO and Supabase error rates: any signal over its
+ * threshold cuts the limit by a quarter, and a healthy sample raises it by one.
+ * Jobs already running are never stopped; a lower limit only holds back claims.
+ */
+export class ConcurrencyController {
+  private static instance: ConcurrencyController;
+
+  private config = Config.getInstance();
+  private logger = Logger.getInstance();
+  private limit: number;
+  private eventLoopDelay: IntervalHistogram;
+  private results: Record<DownstreamService, DownstreamResult[]> = { dataforseo: [], supabase: [] };
+  private adjustInterval?: NodeJS.Timeout;
+
+  private constructor() {
+    this.limit = this.config.maxConcurrentJobs;
+    this.eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+  }
+
+  public static getInstance(): ConcurrencyController {
+    if (!ConcurrencyController.instance) {
+      ConcurrencyController.instance = new ConcurrencyController();
+    }
+    return ConcurrencyController.instance;
+  }
+
+  public start(onChange: (change: ConcurrencyChange) => void): void {
+    if (!this.config.adaptiveConcurrencyEnabled) {
+      return;
+    }
+
+    this.eventLoopDelay.enable();
+    this.adjustInterval = setInterval(() => {
+      const change = this.adjust();
+      if (change) {
+        onChange(change);
+      }
+    }, ADJUST_INTERVAL_MS);
+  }
+
+  public stop(): void {
+    if (this.adjustInterval) {
+      clearInterval(this.adjustInterval);
+    }
+    this.eventLoopDelay.disable();
+  }
+
+  public getLimit(): number {
+    return this.config.adaptiveConcurrencyEnabled ? this.limit : this.config.maxConcurrentJobs;
+  }
+
+  /** Records the outcome of a call to a downstream service. Only overload-type failures should count as errors. */
+  public recordDownstreamResult(service: DownstreamService, ok: boolean): void {
+    this.results[service].push({ at: Date.now(), ok });
+  }
+
+  public getSignals(): ConcurrencySignals {
+    const heap = getHeapStatistics();
+    const delayMs = this.eventLoopDelay.mean / 1e6;
+
+    return {
+      heapUsage: heap.used_heap_size / heap.heap_size_limit,
+      // The histogram reports NaN until it has a sample
+      eventLoopDelayMs: Number.isFinite(delayMs) ? Math.round(delayMs) : 0,
+      errorRates: {
+        dataforseo: this.getErrorRate('dataforseo'),
+        supabase: this.getErrorRate('supabase')
+      }
+    };
+  }
+
+  private adjust(): ConcurrencyChange | null {
+    const signals = this.getSignals();
+    this.eventLoopDelay.reset();
+
+    const reasons: string[] = [];
+    if (signals.heapUsage > this.config.heapUsageThreshold) {
+      reasons.push(`heap usage ${Math.round(signals.heapUsage * 100)}%`);
+    }
+    if (signals.eventLoopDelayMs > this.config.eventLoopDelayThresholdMs) {
+      reasons.push(`event-loop delay ${signals.eventLoopDelayMs}ms`);
+    }
+    for (const service of Object.keys(signals.errorRates) as DownstreamService[]) {
+      if (signals.errorRates[service] > this.config.downstreamErrorRateThreshold) {
+        reasons.push(`${service} error rate ${Math.round(signals.errorRates[service] * 100)}%`);
+      }
+    }
+
+    const previousLimit = this.limit;
+    this.limit = reasons.length > 0
+      ? Math.max(this.config.minConcurrentJobs, previousLimit - Math.max(1, Math.ceil(previousLimit / 4)))
+      : Math.min(this.config.maxConcurrentJobs, previousLimit + 1);
+
+    if (this.limit === previousLimit) {
+      return null;
+    }
+
+    if (this.limit < previousLimit) {
+      this.logger.warn(`🎚️ Concurrency lowered ${previousLimit} → ${this.limit}: ${reasons.join(', ')}`);
+    } else {
+      this.logger.info(`🎚️ Concurrency raised ${previousLimit} → ${this.limit}`);
+    }
+
+    return { previousLimit, limit: this.limit, reasons, signals };
+  }
+
+  private getErrorRate(service: DownstreamService): number {
+    const cutoff = Date.now() - ERROR_RATE_WINDOW_MS;
+    const recent = this.results[service].filter(result => result.at >= cutoff);
+    this.results[service] = recent;
+
+    if (recent.length < MIN_ERROR_RATE_SAMPLES) {
+      return 0;
+    }
+
+    return recent.filter(result => !result.ok).length / recent.length;
+  }
+}
@@ -0,0 +1,264 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from '../utils/Logger';
+import { classifyError, classifyErrorMessage, JobErrorClass } from '../utils/JobErrors';
+
+export interface DeadLetterFilters {
+  error_class?: string;
+  job_type?: string;
+  include_resolved?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface DeadLetterSelection {
+  job_ids?: string[];
+  error_class?: string;
+  job_type?: string;
+}
+
+export interface RequeueResult {
+  requeued: string[];
+  // Imports whose listing got another active job since; they stay dead-lettered
+  conflicting: string[];
+}
+
+// Postgres unique_violation, raised by the active dedupe_key index
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Jobs that ran out of attempts. Each dead-lettered job keeps a dead_letter_jobs row
+ * with the payload it failed with and its full attempt history; its job_queue row is
+ * moved to dead_letter so it stays out of the normal job listings until it is
+ * requeued or discarded.
+ */
+export class DeadLetterQueue {
+  private logger = Logger.getInstance();
+
+  constructor(private supabase: SupabaseClient) {}
+
+  public async deadLetter(jobId: string, error: unknown): Promise<void> {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await this.moveToDeadLetter(jobId, classifyError(error), errorMessage);
+  }
+
+  public async list(filters: DeadLetterFilters): Promise<{ jobs: any[]; total: number }> {
+    let query = this.supabase
+      .from('dead_letter_jobs')
+      .select('*', { count: 'exact' })
+      .order('dead_lettered_at', { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (!filters.include_resolved) {
+      query = query.is('resolution', null);
+    }
+    if (filters.error_class) {
+      query = query.eq('error_class', filters.error_class);
+    }
+    if (filters.job_type) {
+      query = query.eq('job_type', filters.job_type);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list dead-lettered jobs: ${error.message}`);
+    }
+
+    return { jobs: data || [], total: count || 0 };
+  }
+
+  /**
+   * Puts the selected jobs back in the queue with a fresh attempt budget. Their import
+   * checkpoints are kept, so they reuse their sync job. Jobs are requeued one at a
+   * time, so an import whose listing already has another active job is skipped and
+   * reported instead of failing the whole batch.
+   */
+  public async requeue(selection: DeadLetterSelection): Promise<RequeueResult> {
+    const result: RequeueResult = { requeued: [], conflicting: [] };
+    const jobIds = await this.resolveSelection(selection);
+
+    try {
+      for (const jobId of jobIds) {
+        const { data, error } = await this.supabase
+          .from('job_queue')
+          .update({
+            status: 'pending',
+            attempts: 0,
+            run_at: null,
+            worker_id: null,
+            claimed_at: null,
+            completed_at: null,
+            error_message: null,
+            error_details: null
+          })
+          .eq('id', jobId)
+          .eq('status', 'dead_letter')
+          .select('id');
+
+        if (error?.code === UNIQUE_VIOLATION) {
+          result.conflicting.push(jobId);
+          continue;
+        }
+
+        if (error) {
+          throw new Error(`Failed to requeue job ${jobId}: ${error.message}`);
+        }
+
+        if (data && data.length > 0) {
+          result.requeued.push(jobId);
+        }
+      }
+    } finally {
+      // Jobs requeued before a failure are back in the queue either way
+      if (result.requeued.length > 0) {
+        await this.resolve(result.requeued, 'requeued');
+      }
+    }
+
+    this.logger.info(`♻️ Requeued ${result.requeued.length} dead-lettered jobs, skipped ${result.conflicting.length} with an active duplicate`);
+    return result;
+  }
+
+  /** Marks the selected jobs as discarded for good. Returns the discarded job ids. */
+  public async discard(selection: DeadLetterSelection): Promise<string[]> {
+    const jobIds = await this.resolveSelection(selection);
+    if (jobIds.length === 0) {
+      return [];
+    }
+
+    const { error } = await this.supabase
+      .from('job_queue')
+      .update({ status: 'discarded' })
+      .in('id', jobIds)
+      .eq('status', 'dead_letter');
+
+    if (error) {
+      throw new Error(`Failed to discard jobs: ${error.message}`);
+    }
+
+    await this.resolve(jobIds, 'discarded');
+    this.logger.info(`🗑️ Discarded ${jobIds.length} dead-lettered jobs`);
+    return jobIds;
+  }
+
+  /**
+   * Moves jobs left as failed before the dead-letter queue existed, classifying
+   * them by their stored error message. Returns how many were moved.
+   */
+  public async importFailedJobs(limit: number): Promise<number> {
+    const { data: jobs, error } = await this.supabase
+      .from('job_queue')
+      .select('id, error_message')
+      .eq('status', 'failed')
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load failed jobs: ${error.message}`);
+    }
+
+    for (const job of jobs || []) {
+      await this.moveToDeadLetter(job.id, classifyErrorMessage(job.error_message), job.error_message || 'Unknown error');
+    }
+
+    return jobs?.length || 0;
+  }
+
+  private async moveToDeadLetter(jobId: string, errorClass: JobErrorClass, errorMessage: string): Promise<void> {
+    const { data: job, error: jobError } = await this.supabase
+      .from('job_queue')
+      .select('id, user_id, job_type, payload, attempts, max_attempts, error_details, created_at')
+      .eq('id', jobId)
+      .single();
+
+    if (jobError || !job) {
+      throw new Error(`Failed to load job ${jobId} for dead-lettering: ${jobError?.message || 'not found'}`);
+    }
+
+    const { data: attempts } = await this.supabase
+      .from('job_attempts')
+      .select('attempt, worker_id, started_at, finished_at, error_message, error_details, retryable')
+      .eq('job_id', jobId)
+      .order('attempt', { ascending: true });
+
+    // Jobs that failed before attempts were recorded only have their last error
+    const errorChain = attempts && attempts.length > 0
+      ? attempts
+      : [{ attempt: job.attempts || 1, error_message: errorMessage, error_details: job.error_details || null }];
+
+    const { error: insertError } = await this.supabase
+      .from('dead_letter_jobs')
+      .upsert({
+        job_id: job.id,
+        user_id: job.user_id,
+        job_type: job.job_type,
+        payload: job.payload,
+        error_class: errorClass,
+        error_message: errorMessage,
+        error_chain: errorChain,
+        attempts: job.attempts || 0,
+        job_created_at: job.created_at,
+        dead_lettered_at: new Date().toISOString(),
+        resolution: null,
+        resolved_at: null
+      }, { onConflict: 'job_id' });
+
+    if (insertError) {
+      throw new Error(`Failed to dead-letter job ${jobId}: ${insertError.message}`);
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('job_queue')
+      .update({
+        status: 'dead_letter',
+        error_message: errorMessage,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', jobId);
+
+    if (updateError) {
+      throw new Error(`Failed to move job ${jobId} to dead letter: ${updateError.message}`);
+    }
+
+    this.logger.warn(`☠️ Job ${jobId} moved to dead letter (${errorClass}): ${errorMessage}`);
+  }
+
+  private async resolveSelection(selection: DeadLetterSelection): Promise<string[]> {
+    let query = this.supabase
+      .from('dead_letter_jobs')
+      .select('job_id')
+      .is('resolution', null);
+
+    if (selection.job_ids) {
+      query = query.in('job_id', selection.job_ids);
+    }
+    if (selection.error_class) {
+      query = query.eq('error_class', selection.error_class);
+    }
+    if (selection.job_type) {
+      query = query.eq('job_type', selection.job_type);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to select dead-lettered jobs: ${error.message}`);
+    }
+
+    return (data || []).map(row => row.job_id);
+  }
+
+  private async resolve(jobIds: string[], resolution: 'requeued' | 'discarded'): Promise<void> {
+    const { error } = await this.supabase
+      .from('dead_letter_jobs')
+      .update({
+        resolution,
+        resolved_at: new Date().toISOString()
+      })
+      .in('job_id', jobIds);
+
+    if (error) {
+      this.logger.warn(`⚠️ Failed to mark ${jobIds.length} dead-lettered jobs as ${resolution}:`, error);
+    }
+  }
+}
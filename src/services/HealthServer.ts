@@ -201,7 +201,8 @@ export class HealthServer {
   private async handleReadyCheck(req: Request, res: Response): Promise<void> {
     // Ready means the service can accept traffic
     try {
-      const isReady = this.workerManager && await this.checkDatabaseConnection();
+      // A draining worker stops taking traffic before its jobs have finished
+      const isReady = this.workerManager && this.workerManager.isReady() && await this.checkDatabaseConnection();
       
       if (isReady) {
         res.json({ status: 'ready', timestamp: new Date().toISOString() });
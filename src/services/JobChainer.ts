@@ -0,0 +1,214 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from '../utils/Logger';
+import { JobHandlerRegistry } from '../handlers/JobHandlerRegistry';
+import { getQueueBackend, NewJob, QueueBackend } from './QueueBackend';
+
+/** A job to enqueue once its parent succeeds; follow-ups nest to form a workflow. */
+export interface FollowUpStep {
+  job_type: string;
+  payload?: Record<string, any>;
+  // Wait this long after the parent finishes before the step is due
+  delay_seconds?: number;
+  priority?: number;
+  follow_ups?: FollowUpStep[];
+}
+
+export type WorkflowStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface WorkflowSummary {
+  workflow_id: string;
+  status: WorkflowStatus;
+  total_jobs: number;
+  completed_jobs: number;
+  failed_jobs: number;
+  // Steps declared by unfinished jobs that haven't been enqueued yet
+  pending_steps: number;
+  jobs: Array<{ job_id: string; parent_job_id: string | null; job_type: string; status: string }>;
+}
+
+const MAX_WORKFLOW_DEPTH = 5;
+const MAX_WORKFLOW_STEPS = 20;
+
+const FAILED_JOB_STATUSES = ['failed', 'dead_letter', 'discarded'];
+
+/**
+ * Enqueues a job's declared follow-ups when it succeeds. Each child links to its
+ * parent through parent_job_id and to the first job of the chain through
+ * workflow_id, and inherits the rest of the chain as its own follow_ups.
+ */
+export class JobChainer {
+  private logger = Logger.getInstance();
+  private jobHandlers = JobHandlerRegistry.getInstance();
+  private queue: QueueBackend;
+
+  constructor(private supabase: SupabaseClient) {
+    this.queue = getQueueBackend(supabase);
+  }
+
+  /**
+   * Validates follow_ups from a request body, checking each step's payload against its
+   * job type's schema as it will be enqueued for userId. Returns an error message, or
+   * null when valid.
+   */
+  public static validateFollowUps(value: unknown, userId: string, jobHandlers = JobHandlerRegistry.getInstance()): string | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    let stepCount = 0;
+    const validate = (steps: unknown, depth: number): string | null => {
+      if (!Array.isArray(steps)) {
+        return 'follow_ups must be an array';
+      }
+      if (depth > MAX_WORKFLOW_DEPTH) {
+        return `follow_ups can nest at most ${MAX_WORKFLOW_DEPTH} levels`;
+      }
+
+      for (const step of steps) {
+        stepCount++;
+        if (stepCount > MAX_WORKFLOW_STEPS) {
+          return `A workflow can have at most ${MAX_WORKFLOW_STEPS} follow-up jobs`;
+        }
+        if (!step || typeof step !== 'object') {
+          return 'Each follow-up must be an object';
+        }
+        if (!jobHandlers.get(step.job_type)) {
+          return `Unsupported follow-up job_type: ${step.job_type}`;
+        }
+        if (step.payload !== undefined && (typeof step.payload !== 'object' || step.payload === null || Array.isArray(step.payload))) {
+          return 'Follow-up payload must be an object';
+        }
+        // A step runs after the import that creates its sync job, so naming one up front is never right
+        if (step.payload?.sync_job_id !== undefined) {
+          return 'Follow-up payload can\'t name a sync_job_id';
+        }
+        const { error: payloadError } = jobHandlers.validatePayload(step.job_type, { ...step.payload, user_id: userId });
+        if (payloadError) {
+          return `Follow-up ${step.job_type}: ${payloadError}`;
+        }
+        if (step.delay_seconds !== undefined && !(Number.isInteger(step.delay_seconds) && step.delay_seconds >= 0)) {
+          return 'Follow-up delay_seconds must be a non-negative integer';
+        }
+        if (step.priority !== undefined && !Number.isInteger(step.priority)) {
+          return 'Follow-up priority must be an integer';
+        }
+        if (step.follow_ups !== undefined) {
+          const nestedError = validate(step.follow_ups, depth + 1);
+          if (nestedError) {
+            return nestedError;
+          }
+        }
+      }
+
+      return null;
+    };
+
+    return validate(value, 1);
+  }
+
+  /** Enqueues the follow-ups of a job that just completed. Returns the created job ids. */
+  public async enqueueFollowUps(jobId: string): Promise<string[]> {
+    const { data: parent, error } = await this.supabase
+      .from('job_queue')
+      .select('id, user_id, workflow_id, follow_ups, priority')
+      .eq('id', jobId)
+      .single();
+
+    if (error || !parent) {
+      throw new Error(`Failed to load job ${jobId} for follow-ups: ${error?.message || 'not found'}`);
+    }
+
+    const steps: FollowUpStep[] = parent.follow_ups || [];
+    if (steps.length === 0) {
+      return [];
+    }
+
+    const now = Date.now();
+    const rows = steps.map((step): NewJob => {
+      const runAt = step.delay_seconds ? new Date(now + step.delay_seconds * 1000).toISOString() : null;
+      const handler = this.jobHandlers.get(step.job_type);
+      return {
+        user_id: parent.user_id,
+        job_type: step.job_type,
+        priority: step.priority ?? parent.priority ?? 2,
+        status: runAt ? 'scheduled' : 'pending',
+        run_at: runAt,
+        payload: {
+          parent_job_id: parent.id,
+          ...(step.payload || {}),
+          // Follow-ups always run for the parent's operator
+          user_id: parent.user_id
+        },
+        parent_job_id: parent.id,
+        workflow_id: parent.workflow_id || parent.id,
+        follow_ups: step.follow_ups || null,
+        ...(handler ? { max_attempts: handler.retryPolicy.maxAttempts } : {})
+      };
+    });
+
+    let children: any[];
+    try {
+      children = await this.queue.enqueue(rows);
+    } catch (error) {
+      throw new Error(`Failed to enqueue follow-ups of job ${jobId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const childIds = children.map(child => child.id);
+    this.logger.info(`🔗 Enqueued ${childIds.length} follow-up jobs of ${jobId}: ${steps.map(step => step.job_type).join(', ')}`);
+    return childIds;
+  }
+
+  /** Aggregate status of the workflow a job belongs to, or null for a job without follow-ups or parent. */
+  public async getWorkflowSummary(job: { id: string; workflow_id?: string | null; follow_ups?: FollowUpStep[] | null }): Promise<WorkflowSummary | null> {
+    const workflowId = job.workflow_id || job.id;
+    if (!job.workflow_id && !job.follow_ups?.length) {
+      return null;
+    }
+
+    const { data: rows, error } = await this.supabase
+      .from('job_queue')
+      .select('id, parent_job_id, job_type, status, follow_ups, created_at')
+      .or(`id.eq.${workflowId},workflow_id.eq.${workflowId}`)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load workflow ${workflowId}: ${error.message}`);
+    }
+
+    const jobs = rows || [];
+    const completed = jobs.filter(row => row.status === 'completed').length;
+    const failed = jobs.filter(row => FAILED_JOB_STATUSES.includes(row.status)).length;
+    const cancelled = jobs.filter(row => row.status === 'cancelled').length;
+    const pendingSteps = jobs
+      .filter(row => row.status !== 'completed')
+      .reduce((total, row) => total + this.countSteps(row.follow_ups || []), 0);
+
+    let status: WorkflowStatus = 'running';
+    if (failed > 0) {
+      status = 'failed';
+    } else if (cancelled > 0) {
+      status = 'cancelled';
+    } else if (completed === jobs.length) {
+      status = 'completed';
+    }
+
+    return {
+      workflow_id: workflowId,
+      status,
+      total_jobs: jobs.length + pendingSteps,
+      completed_jobs: completed,
+      failed_jobs: failed,
+      pending_steps: pendingSteps,
+      jobs: jobs.map(row => ({
+        job_id: row.id,
+        parent_job_id: row.parent_job_id || null,
+        job_type: row.job_type,
+        status: row.status
+      }))
+    };
+  }
+
+  private countSteps(steps: FollowUpStep[]): number {
+    return steps.reduce((total, step) => total + 1 + this.countSteps(step.follow_ups || []), 0);
+  }
+}
@@ -0,0 +1,59 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from '../utils/Logger';
+
+export type ImportPhase = 'started' | 'counting' | 'fetching' | 'importing' | 'completed';
+
+/**
+ * Progress of a review import persisted on its job_queue row, so a job reclaimed
+ * after a worker restart resumes its DataForSEO tasks and import offset instead
+ * of paying for new tasks.
+ */
+export interface ImportCheckpoint {
+  phase: ImportPhase;
+  sync_job_id: string;
+  // Incremental cutoff fixed at the start, so a resume doesn't skip the reviews it already imported
+  last_review_date: string | null;
+  count_task_id?: string;
+  full_task_id?: string;
+  total_available?: number;
+  // Number of fetched reviews already upserted
+  imported_offset?: number;
+  imported_count?: number;
+  skipped_count?: number;
+  error_count?: number;
+  updated_at?: string;
+}
+
+export class JobCheckpointStore {
+  private logger = Logger.getInstance();
+
+  constructor(private supabase: SupabaseClient) {}
+
+  public async load(jobId: string): Promise<ImportCheckpoint | null> {
+    const { data, error } = await this.supabase
+      .from('job_queue')
+      .select('checkpoint')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load checkpoint for job ${jobId}: ${error.message}`);
+    }
+
+    return data?.checkpoint || null;
+  }
+
+  public async save(jobId: string, checkpoint: ImportCheckpoint): Promise<void> {
+    checkpoint.updated_at = new Date().toISOString();
+
+    const { error } = await this.supabase
+      .from('job_queue')
+      .update({ checkpoint })
+      .eq('id', jobId);
+
+    if (error) {
+      // Losing a checkpoint only costs a re-run, so don't fail the import over it
+      this.logger.warn(`⚠️ Failed to save checkpoint for job ${jobId}:`, error);
+    }
+  }
+}
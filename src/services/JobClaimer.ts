@@ -0,0 +1,299 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Config } from '../config/Config';
+import { Logger } from '../utils/Logger';
+
+export interface Job {
+  id: string;
+  user_id: string;
+  job_type: string;
+  payload: any;
+  priority: number;
+}
+
+interface CandidateJob extends Job {
+  created_at: string;
+}
+
+// Statuses that hold one of a tenant's concurrency slots
+const ACTIVE_JOB_STATUSES = ['claimed', 'processing', 'cancelling'];
+
+// Statuses parked until their run_at: delayed jobs and retries waiting out their backoff
+const DELAYED_JOB_STATUSES = ['scheduled', 'retry_scheduled'];
+
+const MAX_CLAIM_PASSES = 3;
+
+/**
+ * Claims pending jobs fairly across tenants. Candidates are grouped by user_id and
+ * handed out round-robin, starting with the tenants running the fewest jobs, and no
+ * tenant gets more than its concurrency cap across the whole fleet. Priority ages
+ * with queue time, so low-priority syncs are eventually claimed ahead of fresh
+ * high-priority jobs. Each pass claims its picks with one conditional update on
+ * status = 'pending' per job type, which keeps two workers from claiming the same
+ * job. Caps are checked before claiming, so workers claiming at the same moment can
+ * briefly exceed one.
+ */
+export class JobClaimer {
+  private config = Config.getInstance();
+  private logger = Logger.getInstance();
+
+  constructor(private supabase: SupabaseClient) {}
+
+  /** jobTypeSlots caps how many jobs of a type this call may claim; types without an entry are capped by slots only. */
+  public async claimJobs(slots: number, jobTypes: string[], jobTypeSlots: Record<string, number> = {}): Promise<Job[]> {
+    if (slots <= 0 || jobTypes.length === 0) {
+      return [];
+    }
+
+    const activeCounts = await this.countActiveJobs();
+    const typeSlots = { ...jobTypeSlots };
+    const claimed: Job[] = [];
+
+    // Tenants that reach their cap are excluded from the next pass, so one tenant's
+    // backlog can't fill the candidate window and hide everyone else's jobs. Jobs
+    // another worker claimed first leave their slot to the next pass.
+    for (let pass = 0; pass < MAX_CLAIM_PASSES && claimed.length < slots; pass++) {
+      const cappedTenants = Array.from(activeCounts.entries())
+        .filter(([userId, active]) => active >= this.getTenantLimit(userId))
+        .map(([userId]) => userId);
+
+      const openJobTypes = jobTypes.filter(jobType => typeSlots[jobType] === undefined || typeSlots[jobType] > 0);
+      if (openJobTypes.length === 0) {
+        break;
+      }
+
+      const candidates = await this.loadCandidates(openJobTypes, cappedTenants, Math.max(slots * 10, 50));
+      const picks = this.pickJobs(this.orderFairly(candidates, activeCounts), slots - claimed.length, activeCounts, typeSlots);
+      if (picks.length === 0) {
+        break;
+      }
+
+      const claimedIds = await this.claimPicks(picks);
+      let claimedThisPass = 0;
+
+      for (const job of picks) {
+        if (!claimedIds.has(job.id)) {
+          continue;
+        }
+
+        activeCounts.set(job.user_id, (activeCounts.get(job.user_id) || 0) + 1);
+        if (typeSlots[job.job_type] !== undefined) {
+          typeSlots[job.job_type]--;
+        }
+        claimedThisPass++;
+        claimed.push({
+          id: job.id,
+          user_id: job.user_id,
+          job_type: job.job_type,
+          payload: job.payload,
+          priority: job.priority
+        });
+        this.logger.info(`🎯 Claimed job: ${job.id} (${job.job_type}) for operator ${job.user_id}`);
+      }
+
+      if (claimedThisPass === 0) {
+        break;
+      }
+    }
+
+    return claimed;
+  }
+
+  /** Moves delayed jobs whose run_at has passed to pending so they can be claimed. */
+  public async promoteDueJobs(): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('job_queue')
+      .update({ status: 'pending' })
+      .in('status', DELAYED_JOB_STATUSES)
+      .lte('run_at', new Date().toISOString())
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to promote due jobs: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+
+  public getTenantLimit(userId: string): number {
+    return this.config.tenantConcurrencyOverrides[userId] ?? this.config.maxJobsPerTenant;
+  }
+
+  /**
+   * Loads the most urgent pending jobs by stored priority and the longest-waiting ones,
+   * whose aged priority may have overtaken them, so neither a backlog of old low-priority
+   * jobs nor a stream of new urgent ones can hide the other from the fair ordering.
+   */
+  private async loadCandidates(jobTypes: string[], excludedTenants: string[], limit: number): Promise<CandidateJob[]> {
+    const [mostUrgent, longestWaiting] = await Promise.all([
+      this.loadPendingJobs(jobTypes, excludedTenants, limit, true),
+      this.loadPendingJobs(jobTypes, excludedTenants, limit, false)
+    ]);
+
+    const candidates = new Map<string, CandidateJob>();
+    for (const job of [...mostUrgent, ...longestWaiting]) {
+      candidates.set(job.id, job);
+    }
+    return Array.from(candidates.values());
+  }
+
+  private async loadPendingJobs(jobTypes: string[], excludedTenants: string[], limit: number, byPriority: boolean): Promise<CandidateJob[]> {
+    let query = this.supabase
+      .from('job_queue')
+      .select('id, user_id, job_type, payload, priority, created_at')
+      .eq('status', 'pending')
+      .in('job_type', jobTypes)
+      // Pending rows written with a future run_at by other clients still wait for it
+      .or(`run_at.is.null,run_at.lte.${new Date().toISOString()}`);
+
+    if (excludedTenants.length > 0) {
+      query = query.not('user_id', 'in', `(${excludedTenants.join(',')})`);
+    }
+
+    if (byPriority) {
+      query = query.order('priority', { ascending: true, nullsFirst: false });
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load pending jobs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Active jobs are bounded by fleet capacity, so counting all of them stays cheap
+  public async countActiveJobs(): Promise<Map<string, number>> {
+    const { data, error } = await this.supabase
+      .from('job_queue')
+      .select('user_id')
+      .in('status', ACTIVE_JOB_STATUSES);
+
+    if (error) {
+      throw new Error(`Failed to count active jobs: ${error.message}`);
+    }
+
+    const counts = new Map<string, number>();
+    for (const row of data || []) {
+      counts.set(row.user_id, (counts.get(row.user_id) || 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Interleaves tenants: the first round takes each tenant's best job, the second
+   * round their next best, and so on. Tenants with fewer active jobs go first.
+   */
+  private orderFairly(candidates: CandidateJob[], activeCounts: Map<string, number>): CandidateJob[] {
+    const byTenant = new Map<string, CandidateJob[]>();
+    for (const job of candidates) {
+      const queue = byTenant.get(job.user_id) || [];
+      queue.push(job);
+      byTenant.set(job.user_id, queue);
+    }
+
+    const now = Date.now();
+    const compareJobs = (a: CandidateJob, b: CandidateJob) =>
+      this.getEffectivePriority(a, now) - this.getEffectivePriority(b, now) ||
+      a.created_at.localeCompare(b.created_at);
+
+    const queues = Array.from(byTenant.values()).map(queue => queue.sort(compareJobs));
+    queues.sort((a, b) =>
+      (activeCounts.get(a[0].user_id) || 0) - (activeCounts.get(b[0].user_id) || 0) ||
+      compareJobs(a[0], b[0])
+    );
+
+    const ordered: CandidateJob[] = [];
+    for (let round = 0; ordered.length < candidates.length; round++) {
+      for (const queue of queues) {
+        if (round < queue.length) {
+          ordered.push(queue[round]);
+        }
+      }
+    }
+    return ordered;
+  }
+
+  // Lower is claimed first; every PRIORITY_AGING_MINUTES in the queue raises a job one priority level
+  private getEffectivePriority(job: CandidateJob, now: number): number {
+    const waitedMinutes = (now - new Date(job.created_at).getTime()) / 60000;
+    return (job.priority ?? 2) - waitedMinutes / this.config.priorityAgingMinutes;
+  }
+
+  /** Takes jobs in order while their tenant and job type have room, assuming every claim succeeds. */
+  private pickJobs(
+    ordered: CandidateJob[],
+    slots: number,
+    activeCounts: Map<string, number>,
+    typeSlots: Record<string, number>
+  ): CandidateJob[] {
+    const picked = new Map<string, number>();
+    const pickedTypes: Record<string, number> = {};
+    const picks: CandidateJob[] = [];
+
+    for (const job of ordered) {
+      if (picks.length >= slots) {
+        break;
+      }
+
+      const active = (activeCounts.get(job.user_id) || 0) + (picked.get(job.user_id) || 0);
+      const typeTaken = pickedTypes[job.job_type] || 0;
+      if (active >= this.getTenantLimit(job.user_id) || (typeSlots[job.job_type] !== undefined && typeTaken >= typeSlots[job.job_type])) {
+        continue;
+      }
+
+      picked.set(job.user_id, (picked.get(job.user_id) || 0) + 1);
+      pickedTypes[job.job_type] = typeTaken + 1;
+      picks.push(job);
+    }
+
+    return picks;
+  }
+
+  // One update per job type, since the claim duration depends on it
+  private async claimPicks(picks: CandidateJob[]): Promise<Set<string>> {
+    const idsByType = new Map<string, string[]>();
+    for (const job of picks) {
+      idsByType.set(job.job_type, [...(idsByType.get(job.job_type) || []), job.id]);
+    }
+
+    const results = await Promise.all(
+      Array.from(idsByType.entries()).map(([jobType, jobIds]) => this.claimBatch(jobIds, jobType))
+    );
+    return new Set(results.flat().map(job => job.id));
+  }
+
+  /** Claims one pending job for this worker. Null when the job is no longer pending. */
+  public async claim(jobId: string, jobType: string): Promise<Job | null> {
+    const [job] = await this.claimBatch([jobId], jobType);
+    return job || null;
+  }
+
+  /** Claims pending jobs of one type for this worker and returns the ones it got; the rest were no longer pending. */
+  private async claimBatch(jobIds: string[], jobType: string): Promise<Job[]> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + Config.getClaimDurationMinutes(jobType) * 60 * 1000);
+
+    const { data, error } = await this.supabase
+      .from('job_queue')
+      .update({
+        status: 'claimed',
+        worker_id: this.config.workerId,
+        claimed_at: now.toISOString(),
+        claim_expires_at: expiresAt.toISOString()
+      })
+      .in('id', jobIds)
+      .eq('status', 'pending')
+      .select('id, user_id, job_type, payload, priority');
+
+    if (error) {
+      this.logger.error(`❌ Failed to claim jobs ${jobIds.join(', ')}:`, error);
+      return [];
+    }
+
+    // Jobs missing here went to another worker first
+    return data || [];
+  }
+}
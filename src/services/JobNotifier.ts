@@ -0,0 +1,48 @@
+import { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Tells the worker when a job becomes claimable: Supabase Realtime streams job_queue
+ * rows that are inserted or updated with status pending, which covers new jobs as
+ * well as promoted retries, delayed jobs and requeued dead letters. Requires
+ * job_queue to be part of the supabase_realtime publication.
+ */
+export class JobNotifier {
+  private logger = Logger.getInstance();
+  private channel: RealtimeChannel | null = null;
+  private connected = false;
+
+  constructor(private supabase: SupabaseClient) {}
+
+  public start(onJobAvailable: (jobType: string) => void): void {
+    const notify = (payload: { new: Record<string, any> }) => {
+      if (payload.new?.status === 'pending') {
+        onJobAvailable(payload.new.job_type);
+      }
+    };
+
+    this.channel = this.supabase
+      .channel('job_queue_pending')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'job_queue', filter: 'status=eq.pending' }, notify)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'job_queue', filter: 'status=eq.pending' }, notify)
+      .subscribe((status, error) => {
+        const wasConnected = this.connected;
+        this.connected = status === 'SUBSCRIBED';
+
+        if (this.connected && !wasConnected) {
+          this.logger.info('📣 Subscribed to job notifications');
+        } else if (!this.connected && wasConnected) {
+          // Realtime rejoins on its own; polling covers the gap
+          this.logger.warn(`📣 Job notifications ${status.toLowerCase()}, relying on polling`, error);
+        }
+      });
+  }
+
+  public async stop(): Promise<void> {
+    if (this.channel) {
+      await this.supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+    this.connected = false;
+  }
+}
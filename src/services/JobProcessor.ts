@@ -1,12 +1,31 @@
 import { SupabaseClient } from '@supabase/supabase-js';
-import axios from 'axios';
 import { Config } from '../config/Config';
 import { Logger } from '../utils/Logger';
-import { DataForSEOClient } from '../clients/DataForSEOClient';
-import { RetryManager } from '../utils/RetryManager';
+import {
+  ReviewImportPayload,
+  ReviewSourceProvider,
+  ReviewSourceTarget
+} from '../providers/ReviewSourceProvider';
+import { TaskPoller } from './TaskPoller';
+import { ImportCheckpoint, JobCheckpointStore } from './JobCheckpointStore';
+import {
+  getCancellationError,
+  JobReleasedError,
+  JobTimeoutError,
+  LeaseLostError,
+  PermanentJobError,
+  TaskFailedError,
+  throwIfCancelled
+} from '../utils/JobErrors';
 
-// Use require for crypto to ensure compatibility
-const crypto = require('crypto');
+interface ReviewAttribution {
+  tourOperatorId: string;
+  placeName: string;
+  sourceUrl: string | null;
+}
+
+// Succeeded sync jobs searched for the newest review of a listing without a source URL
+const INCREMENTAL_SYNC_JOB_LOOKBACK = 50;
 
 // Simple UUID generation function as fallback
 function generateUUID(): string {
@@ -17,167 +36,187 @@ function generateUUID(): string {
   });
 }
 
-interface TripAdvisorImportPayload {
-  user_id: string;
-  url: string;
-  full_history: boolean;
-  business_name?: string;
-  priority?: number;
-}
-
-interface ReviewData {
-  review_id: string;
-  title?: string;
-  rating: { value: number };
-  review_text: string;
-  user_profile?: { name: string };
-  timestamp: string;
-  date_of_experience?: string;
-  url?: string;
-  [key: string]: any;
-}
-
 export class JobProcessor {
   private config = Config.getInstance();
   private logger = Logger.getInstance();
-  private dataForSEOClient: DataForSEOClient;
-  private retryManager: RetryManager;
   
-  constructor(private supabase: SupabaseClient) {
-    this.dataForSEOClient = new DataForSEOClient();
-    this.retryManager = new RetryManager();
+  private checkpoints: JobCheckpointStore;
+  
+  constructor(private supabase: SupabaseClient, private taskPoller: TaskPoller) {
+    this.checkpoints = new JobCheckpointStore(supabase);
   }
   
-  public async processTripAdvisorImport(jobId: string, payload: TripAdvisorImportPayload): Promise<void> {
-    this.logger.info(`🎯 Processing TripAdvisor import job: ${jobId}`);
+  /**
+   * Runs a review import. Aborting the signal stops the job at its next task wait,
+   * task post or import batch; it then ends as cancelled with its partial counts kept.
+   */
+  public async processReviewImport(
+    jobId: string,
+    provider: ReviewSourceProvider,
+    payload: ReviewImportPayload,
+    signal?: AbortSignal
+  ): Promise<void> {
+    this.logger.info(`🎯 Processing ${provider.displayName} import job: ${jobId}`);
     
     try {
-      // Validate payload
-      this.validateTripAdvisorPayload(payload);
+      // Validate payload and resolve the listing
+      const target = this.validatePayload(provider, payload);
       
-      // Create review sync job record and get last review date for incremental sync
-      const { syncJobId, lastReviewDate } = await this.createReviewSyncJob(jobId, payload);
+      // Resume from a checkpoint if this job was reclaimed after a worker restart,
+      // otherwise create (or adopt) the review sync job record
+      const checkpoint = await this.prepareSyncJob(jobId, provider, payload, target);
+      const syncJobId = checkpoint.sync_job_id;
       
-      // Extract URL path for DataForSEO
-      const urlPath = this.extractTripAdvisorPath(payload.url);
+      if (checkpoint.phase === 'completed') {
+        // The previous run finished importing but never marked the job done
+        await this.completeJob(syncJobId, checkpoint.imported_count || 0, checkpoint.total_available || 0);
+        this.logger.info(`✅ ${provider.displayName} import was already complete for job ${jobId}`);
+        return;
+      }
       
       // Update progress
       await this.updateProgress(syncJobId, 10, 'extracting_url');
       
-      // Smart two-phase approach for full history imports
-      let taskId: string;
-      let reviewsData: any;
-      
-      if (payload.full_history) {
-        // Phase 1: Get review count with minimal API cost
-        this.logger.info(`📊 Phase 1: Getting review count for smart depth calculation`);
-        const countTaskId = await this.createDataForSEOTask(urlPath, false, 10); // Small depth to get count
-        await this.updateProgress(syncJobId, 20, 'getting_review_count');
-        
-        const countData = await this.pollForResults(syncJobId, countTaskId);
-        const totalReviews = countData.reviews_count || 0;
-        
-        this.logger.info(`📊 Found ${totalReviews} total reviews available`);
-        await this.updateSyncJob(syncJobId, { total_available: totalReviews });
-        
-        if (totalReviews > 10) {
-          // Phase 2: Get all reviews with exact depth needed
-          this.logger.info(`📊 Phase 2: Getting all ${totalReviews} reviews with optimal depth`);
-          taskId = await this.createDataForSEOTask(urlPath, true, totalReviews);
-          await this.updateProgress(syncJobId, 40, 'getting_all_reviews');
-          reviewsData = await this.pollForResults(syncJobId, taskId);
-        } else {
-          // Use the count data if there are only a few reviews
-          this.logger.info(`📊 Using Phase 1 data (only ${totalReviews} reviews)`);
-          reviewsData = countData;
-        }
-      } else {
-        // For incremental sync, use standard approach
-        const depth = 20; // Small depth for checking new reviews
-        taskId = await this.createDataForSEOTask(urlPath, false, depth);
-        await this.updateProgress(syncJobId, 30, 'checking_new_reviews');
-        reviewsData = await this.pollForResults(syncJobId, taskId);
-      }
+      const reviewsData = await this.fetchReviewsData(jobId, checkpoint, provider, payload, target, signal);
       
       // Process and import reviews with incremental sync
+      throwIfCancelled(signal, jobId);
       await this.updateProgress(syncJobId, 60, 'importing_reviews');
-      const importedCount = await this.importReviews(syncJobId, reviewsData, lastReviewDate);
+      const importedCount = await this.importReviews(jobId, checkpoint, provider, reviewsData, signal, {
+        tourOperatorId: payload.user_id,
+        placeName: target.businessName,
+        sourceUrl: target.sourceUrl
+      });
       
       // Mark as completed
+      await this.saveCheckpoint(jobId, checkpoint, {
+        phase: 'completed',
+        imported_count: importedCount,
+        total_available: reviewsData.items?.length || 0
+      });
       await this.completeJob(syncJobId, importedCount, reviewsData.items?.length || 0);
       
-      this.logger.info(`✅ TripAdvisor import completed: ${importedCount} reviews imported`);
+      this.logger.info(`✅ ${provider.displayName} import completed: ${importedCount} reviews imported`);
       
     } catch (error) {
-      this.logger.error(`❌ TripAdvisor import failed for job ${jobId}:`, error);
+      if (signal?.aborted) {
+        const cancellation = getCancellationError(signal, jobId);
+        if (cancellation instanceof JobTimeoutError) {
+          this.logger.error(`❌ ${provider.displayName} import timed out for job ${jobId}`);
+          await this.failJob(jobId, cancellation.message);
+        } else if (!(cancellation instanceof LeaseLostError || cancellation instanceof JobReleasedError)) {
+          // Otherwise the sync job carries on under the worker that claims the job next
+          this.logger.info(`🛑 ${provider.displayName} import cancelled for job ${jobId}`);
+          await this.cancelJob(jobId);
+        }
+        throw cancellation;
+      }
+      
+      this.logger.error(`❌ ${provider.displayName} import failed for job ${jobId}:`, error);
       await this.failJob(jobId, error instanceof Error ? error.message : 'Unknown error');
       throw error;
     }
   }
   
-  private validateTripAdvisorPayload(payload: TripAdvisorImportPayload): void {
+  private validatePayload(provider: ReviewSourceProvider, payload: ReviewImportPayload): ReviewSourceTarget {
     if (!payload.user_id) {
-      throw new Error('user_id is required');
+      throw new PermanentJobError('user_id is required');
     }
     
-    if (!payload.url) {
-      throw new Error('url is required');
+    if (typeof payload.full_history !== 'boolean') {
+      throw new PermanentJobError('full_history must be a boolean');
     }
     
-    if (!payload.url.includes('tripadvisor.com')) {
-      throw new Error('Invalid TripAdvisor URL');
+    try {
+      return provider.resolveSource(payload);
+    } catch (error) {
+      throw new PermanentJobError(error instanceof Error ? error.message : `Invalid ${provider.displayName} source`);
     }
+  }
+  
+  private async prepareSyncJob(
+    jobId: string,
+    provider: ReviewSourceProvider,
+    payload: ReviewImportPayload,
+    target: ReviewSourceTarget
+  ): Promise<ImportCheckpoint> {
+    const existing = await this.checkpoints.load(jobId);
     
-    if (typeof payload.full_history !== 'boolean') {
-      throw new Error('full_history must be a boolean');
+    if (existing) {
+      this.logger.info(`♻️ Resuming job ${jobId} from checkpoint (phase: ${existing.phase}, offset: ${existing.imported_offset || 0})`);
+      await this.updateSyncJob(existing.sync_job_id, { status: 'processing', error: null });
+      return existing;
     }
+    
+    // Get last review date for incremental sync
+    const lastReviewDate = payload.full_history
+      ? null
+      : await this.findLastReviewDate(provider, payload.user_id, target);
+    
+    // Sync jobs created by the enhanced API are adopted instead of duplicated
+    const adoptedSyncJobId = payload.sync_job_id
+      ? await this.adoptReviewSyncJob(jobId, payload.sync_job_id, payload.user_id, target)
+      : null;
+    const syncJobId = adoptedSyncJobId || await this.createReviewSyncJob(jobId, provider, payload, target);
+    
+    const checkpoint: ImportCheckpoint = {
+      phase: 'started',
+      sync_job_id: syncJobId,
+      last_review_date: lastReviewDate
+    };
+    await this.checkpoints.save(jobId, checkpoint);
+    
+    return checkpoint;
   }
   
-  private async createReviewSyncJob(queueJobId: string, payload: TripAdvisorImportPayload): Promise<{syncJobId: string, lastReviewDate: string | null}> {
-    const syncJobId = generateUUID();
-    
-    // Extract business info from URL
-    const businessMatch = payload.url.match(/\/([^\/]+)\.html$/);
-    const businessId = businessMatch ? businessMatch[1] : 'unknown';
-    const businessName = payload.business_name || 
-      businessId.replace(/-/g, ' ').replace(/^.*Reviews /, '') || 
-      'TripAdvisor Business';
+  private async saveCheckpoint(jobId: string, checkpoint: ImportCheckpoint, changes: Partial<ImportCheckpoint>): Promise<void> {
+    Object.assign(checkpoint, changes);
+    await this.checkpoints.save(jobId, checkpoint);
+  }
+  
+  // Only the job's own operator's sync jobs can be adopted, whatever sync_job_id the payload names
+  private async adoptReviewSyncJob(queueJobId: string, syncJobId: string, userId: string, target: ReviewSourceTarget): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('review_sync_jobs')
+      .update({
+        queue_job_id: queueJobId,
+        source_business_id: target.businessId,
+        source_business_name: target.businessName,
+        status: 'processing',
+        progress_percentage: 0,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', syncJobId)
+      .eq('tour_operator_id', userId)
+      .select('id');
     
-    // Check for incremental sync - find the most recent review for this business
-    let lastReviewDate: string | null = null;
-    if (!payload.full_history) {
-      try {
-        const { data: lastReview, error } = await this.supabase
-          .from('tripadvisor_reviews')
-          .select('review_date')
-          .eq('platform', 'tripadvisor')
-          .ilike('source_url', `%${businessId}%`)
-          .order('review_date', { ascending: false })
-          .limit(1)
-          .maybeSingle(); // Use maybeSingle() instead of single() to handle no results
-          
-        if (!error && lastReview?.review_date) {
-          lastReviewDate = lastReview.review_date;
-          this.logger.info(`🔄 Incremental sync: Last review date found: ${lastReviewDate}`);
-        } else {
-          this.logger.info(`🆕 First-time import: No existing reviews found for this business`);
-        }
-      } catch (error) {
-        this.logger.warn(`⚠️ Could not check for existing reviews:`, error);
-        // Continue with full import if incremental check fails
-      }
+    if (error || !data || data.length === 0) {
+      this.logger.warn(`⚠️ Could not adopt review sync job ${syncJobId}, creating a new one`, error);
+      return null;
     }
     
-    const { data, error } = await this.supabase
+    this.logger.info(`📝 Adopted review sync job: ${syncJobId}`);
+    return syncJobId;
+  }
+  
+  private async createReviewSyncJob(
+    queueJobId: string,
+    provider: ReviewSourceProvider,
+    payload: ReviewImportPayload,
+    target: ReviewSourceTarget
+  ): Promise<string> {
+    const syncJobId = generateUUID();
+    
+    const { error } = await this.supabase
       .from('review_sync_jobs')
       .insert({
         id: syncJobId,
         queue_job_id: queueJobId,
         tour_operator_id: payload.user_id,
-        platform: 'tripadvisor',
-        source_business_id: businessId,
-        source_business_name: businessName,
-        source_url: payload.url,
+        platform: provider.platform,
+        source_business_id: target.businessId,
+        source_business_name: target.businessName,
+        source_url: target.sourceUrl,
         full_history: payload.full_history,
         status: 'processing',
         progress_percentage: 0,
@@ -194,115 +233,171 @@ export class JobProcessor {
       throw new Error(`Failed to create review sync job: ${error.message}`);
     }
     
-    this.logger.info(`📝 Created review sync job: ${syncJobId}`);
-    return { syncJobId, lastReviewDate };
+    this.logger.info(`📝 Created ${provider.platform} review sync job: ${syncJobId}`);
+    return syncJobId;
   }
   
-  private extractTripAdvisorPath(url: string): string {
-    const match = url.match(/tripadvisor\.com\/(.+)$/);
-    if (!match) {
-      throw new Error('Invalid TripAdvisor URL format');
+  /**
+   * Incremental sync cutoff: the newest stored review of this exact listing, once a sync
+   * of it has succeeded before. Reviews are matched on the listing's source URL; listings
+   * without one, such as Google imports by place_id or cid, are matched through the
+   * recent sync jobs that imported them for the same source_business_id.
+   */
+  private async findLastReviewDate(provider: ReviewSourceProvider, userId: string, target: ReviewSourceTarget): Promise<string | null> {
+    try {
+      const { data: lastSyncs } = await this.supabase
+        .from('review_sync_jobs')
+        .select('id')
+        .eq('platform', provider.platform)
+        .eq('tour_operator_id', userId)
+        .eq('source_business_id', target.businessId)
+        .eq('status', 'succeeded')
+        .order('created_at', { ascending: false })
+        .limit(INCREMENTAL_SYNC_JOB_LOOKBACK);
+      
+      if (lastSyncs && lastSyncs.length > 0) {
+        let reviewQuery = this.supabase
+          .from('tripadvisor_reviews')
+          .select('posted_at')
+          .eq('source', provider.platform)
+          .eq('tour_operator_id', userId);
+        
+        reviewQuery = target.sourceUrl
+          ? reviewQuery.eq('source_url', target.sourceUrl)
+          : reviewQuery.in('job_id', lastSyncs.map(sync => sync.id));
+        
+        const { data: lastReview, error } = await reviewQuery
+          .order('posted_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        
+        if (!error && lastReview?.posted_at) {
+          this.logger.info(`🔄 Incremental sync: Last review date found: ${lastReview.posted_at}`);
+          return lastReview.posted_at;
+        }
+      }
+      
+      this.logger.info(`🆕 First-time import: No existing reviews found for this business`);
+    } catch (error) {
+      this.logger.warn(`⚠️ Could not check for existing reviews:`, error);
+      // Continue with full import if incremental check fails
     }
-    return match[1];
+    
+    return null;
   }
   
-  private async createDataForSEOTask(urlPath: string, fullHistory: boolean, explicitDepth?: number): Promise<string> {
-    let depth: number;
-    
-    if (explicitDepth) {
-      // Use the explicit depth provided (either for count check or exact review count)
-      depth = Math.min(explicitDepth, 4490); // Respect DataForSEO max limit
-    } else if (fullHistory) {
-      // Default for full history when we don't know the count yet
-      depth = 1000;
+  /**
+   * Smart two-phase fetch: a cheap count task first, then one task sized to the
+   * exact review count. Incremental syncs fetch a single newest-first page.
+   * Task ids are checkpointed so a resumed job waits on the tasks it already paid for.
+   */
+  private async fetchReviewsData(
+    jobId: string,
+    checkpoint: ImportCheckpoint,
+    provider: ReviewSourceProvider,
+    payload: ReviewImportPayload,
+    target: ReviewSourceTarget,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const syncJobId = checkpoint.sync_job_id;
+    
+    if (checkpoint.full_task_id) {
+      this.logger.info(`♻️ Resuming wait on DataForSEO task ${checkpoint.full_task_id}`);
+      return this.waitForResults(jobId, checkpoint, provider, checkpoint.full_task_id, true, signal);
+    }
+    
+    if (!payload.full_history) {
+      const taskId = await this.startTask(jobId, provider, target, payload, provider.incrementalDepth, signal);
+      await this.saveCheckpoint(jobId, checkpoint, { phase: 'fetching', full_task_id: taskId });
+      await this.updateProgress(syncJobId, 30, 'checking_new_reviews');
+      return this.waitForResults(jobId, checkpoint, provider, taskId, false, signal);
+    }
+    
+    // Phase 1: Get review count with minimal API cost
+    let countData: any;
+    if (checkpoint.count_task_id) {
+      this.logger.info(`♻️ Resuming wait on DataForSEO count task ${checkpoint.count_task_id}`);
+      countData = await this.waitForResults(jobId, checkpoint, provider, checkpoint.count_task_id, true, signal);
     } else {
-      // Default for incremental sync
-      depth = 20;
+      this.logger.info(`📊 Phase 1: Getting review count for smart depth calculation`);
+      const countTaskId = await this.startTask(jobId, provider, target, payload, provider.countDepth, signal);
+      await this.saveCheckpoint(jobId, checkpoint, { phase: 'counting', count_task_id: countTaskId });
+      await this.updateProgress(syncJobId, 20, 'getting_review_count');
+      countData = await this.waitForResults(jobId, checkpoint, provider, countTaskId, false, signal);
     }
     
-    // Round up to nearest 10 as recommended by DataForSEO
-    depth = Math.ceil(depth / 10) * 10;
-    
-    const payload = [{
-      url_path: urlPath,
-      location_code: 1003854, // United States location code
-      priority: 2,
-      depth: depth
-    }];
-    
-    this.logger.info(`📡 Creating DataForSEO task with depth ${depth} (explicit: ${explicitDepth}, fullHistory: ${fullHistory})`);
-    
-    const taskId = await this.retryManager.executeWithRetry(
-      async () => {
-        const result = await this.dataForSEOClient.createTask('business_data/tripadvisor/reviews', payload);
-        return result.tasks[0].id;
-      },
-      {
-        maxAttempts: 3,
-        delayMs: 1000,
-        backoffMultiplier: 2
-      }
-    );
+    const totalReviews = countData.reviews_count || 0;
+    
+    this.logger.info(`📊 Found ${totalReviews} total reviews available`);
+    await this.updateSyncJob(syncJobId, { total_available: totalReviews });
+    
+    if (totalReviews <= provider.countDepth) {
+      // Use the count data if there are only a few reviews
+      this.logger.info(`📊 Using Phase 1 data (only ${totalReviews} reviews)`);
+      return countData;
+    }
     
-    this.logger.info(`⏳ DataForSEO task created: ${taskId}`);
+    // Phase 2: Get all reviews with exact depth needed
+    this.logger.info(`📊 Phase 2: Getting all ${totalReviews} reviews with optimal depth`);
+    const taskId = await this.startTask(jobId, provider, target, payload, totalReviews, signal);
+    await this.saveCheckpoint(jobId, checkpoint, { phase: 'fetching', full_task_id: taskId, total_available: totalReviews });
+    await this.updateProgress(syncJobId, 40, 'getting_all_reviews');
+    return this.waitForResults(jobId, checkpoint, provider, taskId, false, signal);
+  }
+  
+  private async startTask(
+    jobId: string,
+    provider: ReviewSourceProvider,
+    target: ReviewSourceTarget,
+    payload: ReviewImportPayload,
+    depth: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    throwIfCancelled(signal, jobId);
+    const taskId = await provider.createTask(target, payload, depth, signal);
+    await this.taskPoller.registerTask(taskId, provider.endpoint, jobId);
     return taskId;
   }
   
-  private async pollForResults(syncJobId: string, taskId: string): Promise<any> {
-    const maxAttempts = 60; // 10 minutes max
-    const pollInterval = 10000; // 10 seconds
+  /**
+   * Parks the job on the shared task poller until DataForSEO finishes the task.
+   * A parked job does not count against the worker's concurrency slots.
+   */
+  private async waitForResults(
+    jobId: string,
+    checkpoint: ImportCheckpoint,
+    provider: ReviewSourceProvider,
+    taskId: string,
+    resumed: boolean,
+    signal?: AbortSignal
+  ): Promise<any> {
+    await this.updateSyncJob(checkpoint.sync_job_id, { processing_stage: 'waiting_for_results' });
     
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
-      
-      this.logger.debug(`🔍 Polling DataForSEO results, attempt ${attempt}/${maxAttempts}`);
-      
-      // Update progress during polling
-      const progressIncrement = Math.min(2, (50 - 30) / maxAttempts);
-      await this.updateProgress(syncJobId, 30 + (attempt * progressIncrement), 'waiting_for_results');
-      
-      try {
-        const result = await this.dataForSEOClient.getTaskResult('business_data/tripadvisor/reviews', taskId);
-        
-        if (result.tasks && result.tasks.length > 0) {
-          const task = result.tasks[0];
-          
-          if (task.status_code === 20000 && task.result && Array.isArray(task.result) && task.result.length > 0) {
-            this.logger.info(`✅ DataForSEO results ready for task: ${taskId}`);
-            return task.result[0];
-          }
-          
-          if (task.status_code === 20100) {
-            this.logger.debug(`⏳ DataForSEO task still processing: ${taskId}`);
-            continue;
-          }
-          
-          if (task.status_code !== 20000) {
-            throw new Error(`DataForSEO task failed: ${task.status_code} - ${task.status_message}`);
-          }
-          
-          // Handle case where task is successful but no results
-          if (task.status_code === 20000 && (!task.result || !Array.isArray(task.result) || task.result.length === 0)) {
-            this.logger.warn(`⚠️ DataForSEO task completed but returned no results for task: ${taskId}`);
-            return { items: [], reviews_count: 0 }; // Return empty result structure
-          }
-        }
-      } catch (error) {
-        this.logger.error(`❌ Error polling results for task ${taskId}:`, error);
-        
-        // Continue polling unless it's a critical error or we're past halfway
-        if (attempt > maxAttempts / 2) {
-          throw error;
-        }
+    try {
+      return await this.taskPoller.waitFor(taskId, jobId, provider, resumed, signal);
+    } catch (error) {
+      if (error instanceof TaskFailedError) {
+        // A failed task never produces results, so the next attempt posts a new one
+        delete checkpoint.count_task_id;
+        delete checkpoint.full_task_id;
+        await this.saveCheckpoint(jobId, checkpoint, { phase: 'started' });
       }
+      throw error;
     }
-    
-    throw new Error(`DataForSEO task timed out after ${maxAttempts} attempts`);
   }
   
-  private async importReviews(syncJobId: string, reviewsData: any, lastReviewDate?: string | null): Promise<number> {
+  private async importReviews(
+    jobId: string,
+    checkpoint: ImportCheckpoint,
+    provider: ReviewSourceProvider,
+    reviewsData: any,
+    signal: AbortSignal | undefined,
+    attribution: ReviewAttribution
+  ): Promise<number> {
+    const syncJobId = checkpoint.sync_job_id;
+    const lastReviewDate = checkpoint.last_review_date;
     const totalAvailable = reviewsData.reviews_count || 0;
-    const allReviews: ReviewData[] = reviewsData.items || [];
+    const allReviews: any[] = reviewsData.items || [];
     
     this.logger.info(`📊 Total reviews available: ${totalAvailable}, Retrieved: ${allReviews.length}`);
     if (lastReviewDate) {
@@ -316,7 +411,7 @@ export class JobProcessor {
     let reviewsToImport = allReviews;
     if (lastReviewDate) {
       reviewsToImport = allReviews.filter(review => {
-        const reviewDate = review.timestamp || review.date_of_visit;
+        const reviewDate = provider.getIncrementalCursor(review);
         return reviewDate && new Date(reviewDate) > new Date(lastReviewDate);
       });
       this.logger.info(`📋 Filtered reviews: ${reviewsToImport.length}/${allReviews.length} are new reviews`);
@@ -328,30 +423,39 @@ export class JobProcessor {
       }
     }
     
+    if (checkpoint.phase !== 'importing') {
+      await this.saveCheckpoint(jobId, checkpoint, { phase: 'importing', imported_offset: 0 });
+    }
+    
     this.logger.info(`📝 Importing ${reviewsToImport.length} reviews for sync job: ${syncJobId}`);
     
-    let imported = 0;
-    let skipped = 0;
-    let errors = 0;
+    // A resumed import continues after the last checkpointed batch
+    const startOffset = checkpoint.imported_offset || 0;
+    let imported = checkpoint.imported_count || 0;
+    let skipped = checkpoint.skipped_count || 0;
+    let errors = checkpoint.error_count || 0;
+    
+    if (startOffset > 0) {
+      this.logger.info(`♻️ Resuming import at offset ${startOffset}/${reviewsToImport.length}`);
+    }
     
     // Process in batches for better performance and memory management
     const batchSize = this.config.batchSize;
     
-    for (let i = 0; i < reviewsToImport.length; i += batchSize) {
+    for (let i = startOffset; i < reviewsToImport.length; i += batchSize) {
+      // Batches already written stay imported when the job is cancelled
+      throwIfCancelled(signal, jobId);
+      
       const batch = reviewsToImport.slice(i, i + batchSize);
       
-      // Complete review records for the external_reviews table
+      // Complete review records for the external_reviews table, attributed to the job's operator and listing
       const reviewRecords = batch.map(review => ({
-        source: 'tripadvisor',
-        external_id: review.review_id || `tripadvisor_${Date.now()}_${Math.random()}`,
-        author_name: review.user_profile?.name || 'Anonymous',
-        rating: review.rating?.value || 5,
-        text: review.review_text || '',
-        posted_at: review.timestamp || review.date_of_visit || new Date().toISOString(),
-        author_photo_url: (review.user_profile as any)?.photo_url || null,
-        place_name: 'Vegas Jeep Tours',
-        review_url: review.review_url || null,
-        tour_operator_id: '55e41290-65af-4e0e-8d4f-6c058f5e0a0f', // Use the actual user ID
+        source: provider.platform,
+        ...provider.normalizeReview(review),
+        place_name: attribution.placeName,
+        tour_operator_id: attribution.tourOperatorId,
+        source_url: attribution.sourceUrl,
+        job_id: syncJobId,
         raw_data: review
       }));
       
@@ -384,6 +488,12 @@ export class JobProcessor {
         skipped_count: skipped,
         error_count: errors
       });
+      await this.saveCheckpoint(jobId, checkpoint, {
+        imported_offset: i + batch.length,
+        imported_count: imported,
+        skipped_count: skipped,
+        error_count: errors
+      });
       
       this.logger.debug(`📊 Progress: ${imported}/${reviewsToImport.length} imported, ${skipped} skipped, ${errors} errors`);
     }
@@ -428,28 +538,29 @@ export class JobProcessor {
       .eq('id', syncJobId);
   }
   
+  private async cancelJob(jobId: string): Promise<void> {
+    // Counts are left as the last batch wrote them
+    await this.supabase
+      .from('review_sync_jobs')
+      .update({
+        status: 'cancelled',
+        processing_stage: 'cancelled',
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('queue_job_id', jobId);
+  }
+  
   private async failJob(jobId: string, errorMessage: string): Promise<void> {
-    // Update both job_queue and review_sync_jobs
-    await Promise.all([
-      this.supabase
-        .from('job_queue')
-        .update({
-          status: 'failed',
-          error_message: errorMessage,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', jobId),
-      
-      this.supabase
-        .from('review_sync_jobs')
-        .update({
-          status: 'failed',
-          error: errorMessage,
-          completed_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('queue_job_id', jobId)
-    ]);
+    // The job_queue row is left to WorkerManager, which may schedule another attempt
+    await this.supabase
+      .from('review_sync_jobs')
+      .update({
+        status: 'failed',
+        error: errorMessage,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('queue_job_id', jobId);
   }
 }
-
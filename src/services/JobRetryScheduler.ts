@@ -0,0 +1,221 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Config } from '../config/Config';
+import { Logger } from '../utils/Logger';
+import { RetryManager } from '../utils/RetryManager';
+import { isRetryableError, JobTimeoutError, PoisonJobError } from '../utils/JobErrors';
+import { DeadLetterQueue } from './DeadLetterQueue';
+import { JobRetryPolicy } from '../handlers/JobHandler';
+
+export interface JobAttempt {
+  attempt: number;
+  maxAttempts: number;
+  startedAt: string;
+  retryDelaySeconds: number;
+  retryMaxDelaySeconds: number;
+}
+
+export type FailureOutcome = 'retry_scheduled' | 'dead_letter' | 'failed';
+
+/**
+ * Counts job attempts, keeps one job_attempts row per failed attempt and decides
+ * whether a failure is retried. Retries are parked as retry_scheduled with a run_at
+ * until JobClaimer.promoteDueJobs makes them pending again; jobs out of attempts go
+ * to the dead-letter queue.
+ *
+ * Attempts that never ended on their own, because the worker died or the attempt
+ * hit its timeout, are marked crashed. A job with crashed attempts on
+ * poisonJobWorkerThreshold different workers is likely what brings them down, so
+ * it is quarantined in the dead-letter queue instead of being retried. Requeuing it
+ * from there keeps its history, so one more crash quarantines it again.
+ */
+export class JobRetryScheduler {
+  private config = Config.getInstance();
+  private logger = Logger.getInstance();
+  private retryManager = new RetryManager();
+  private deadLetterQueue: DeadLetterQueue;
+
+  constructor(private supabase: SupabaseClient) {
+    this.deadLetterQueue = new DeadLetterQueue(supabase);
+  }
+
+  /** A max_attempts stored on the job wins over the policy of its job type. */
+  public async startAttempt(jobId: string, retryPolicy?: JobRetryPolicy): Promise<JobAttempt> {
+    const { data: job, error } = await this.supabase
+      .from('job_queue')
+      .select('attempts, max_attempts')
+      .eq('id', jobId)
+      .single();
+
+    if (error || !job) {
+      throw new Error(`Failed to load job ${jobId}: ${error?.message || 'not found'}`);
+    }
+
+    const attempt = (job.attempts || 0) + 1;
+    const startedAt = new Date().toISOString();
+
+    const { error: updateError } = await this.supabase
+      .from('job_queue')
+      .update({ attempts: attempt })
+      .eq('id', jobId);
+
+    if (updateError) {
+      throw new Error(`Failed to record attempt for job ${jobId}: ${updateError.message}`);
+    }
+
+    return {
+      attempt,
+      maxAttempts: job.max_attempts || retryPolicy?.maxAttempts || this.config.maxRetryAttempts,
+      startedAt,
+      retryDelaySeconds: retryPolicy?.retryDelaySeconds ?? this.config.retryDelaySeconds,
+      retryMaxDelaySeconds: retryPolicy?.retryMaxDelaySeconds ?? this.config.retryMaxDelaySeconds
+    };
+  }
+
+  /** Records the failed attempt and either schedules the next one or dead-letters the job. */
+  public async handleFailure(jobId: string, attempt: JobAttempt, error: unknown): Promise<FailureOutcome> {
+    const retryable = isRetryableError(error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const crashed = error instanceof JobTimeoutError;
+    let willRetry = retryable && attempt.attempt < attempt.maxAttempts;
+
+    const { error: historyError } = await this.supabase
+      .from('job_attempts')
+      .insert({
+        job_id: jobId,
+        attempt: attempt.attempt,
+        worker_id: this.config.workerId,
+        started_at: attempt.startedAt,
+        finished_at: new Date().toISOString(),
+        error_message: errorMessage,
+        error_details: { error: error instanceof Error ? error.stack : error },
+        retryable,
+        crashed
+      });
+
+    if (historyError) {
+      this.logger.warn(`⚠️ Failed to record attempt ${attempt.attempt} of job ${jobId}:`, historyError);
+    }
+
+    if (crashed && willRetry) {
+      const poison = await this.detectPoison(jobId);
+      if (poison) {
+        this.logger.warn(`🧪 ${poison.message}, quarantining it`);
+        error = poison;
+        willRetry = false;
+      }
+    }
+
+    if (!willRetry) {
+      this.logger.warn(`❌ Job ${jobId} failed permanently after attempt ${attempt.attempt}/${attempt.maxAttempts}${retryable ? '' : ' (not retryable)'}`);
+
+      try {
+        await this.deadLetterQueue.deadLetter(jobId, error);
+        return 'dead_letter';
+      } catch (deadLetterError) {
+        // Still end the job if the dead-letter write fails, so it isn't left processing
+        this.logger.error(`❌ Failed to dead-letter job ${jobId}:`, deadLetterError);
+        await this.updateJob(jobId, {
+          status: 'failed',
+          error_message: errorMessage,
+          error_details: { error: error instanceof Error ? error.stack : error, retryable },
+          completed_at: new Date().toISOString()
+        });
+        return 'failed';
+      }
+    }
+
+    const delaySeconds = this.getBackoffSeconds(attempt);
+    const runAt = new Date(Date.now() + delaySeconds * 1000).toISOString();
+
+    await this.updateJob(jobId, {
+      status: 'retry_scheduled',
+      run_at: runAt,
+      error_message: errorMessage,
+      worker_id: null,
+      claimed_at: null
+    });
+
+    this.logger.info(`🔁 Job ${jobId} attempt ${attempt.attempt}/${attempt.maxAttempts} failed, retrying in ${delaySeconds}s`);
+    return 'retry_scheduled';
+  }
+
+  /**
+   * Records an attempt cut short by its worker dying. Returns a PoisonJobError when
+   * the job has now crashed on too many workers, or has no attempts left, and should
+   * be quarantined rather than requeued. The attempt check matters for workers with
+   * stable ids, which a job can crash over and over without reaching the threshold.
+   */
+  public async recordCrash(
+    job: { id: string; attempts: number | null; max_attempts: number | null; started_at: string | null },
+    workerId: string
+  ): Promise<PoisonJobError | null> {
+    const { error } = await this.supabase
+      .from('job_attempts')
+      .insert({
+        job_id: job.id,
+        attempt: job.attempts || 1,
+        worker_id: workerId,
+        started_at: job.started_at,
+        finished_at: new Date().toISOString(),
+        error_message: `Worker ${workerId} stopped while running the job`,
+        retryable: true,
+        crashed: true
+      });
+
+    if (error) {
+      this.logger.warn(`⚠️ Failed to record crash of job ${job.id} on worker ${workerId}:`, error);
+    }
+
+    const poison = error ? null : await this.detectPoison(job.id);
+    if (poison) {
+      return poison;
+    }
+
+    const attempt = job.attempts || 1;
+    const maxAttempts = job.max_attempts || this.config.maxRetryAttempts;
+    return attempt >= maxAttempts
+      ? new PoisonJobError(job.id, [workerId], `Job ${job.id} crashed worker ${workerId} on its last attempt (${attempt}/${maxAttempts})`)
+      : null;
+  }
+
+  /** Quarantines a job through the dead-letter queue. */
+  public async quarantine(jobId: string, poison: PoisonJobError): Promise<void> {
+    await this.deadLetterQueue.deadLetter(jobId, poison);
+  }
+
+  private async detectPoison(jobId: string): Promise<PoisonJobError | null> {
+    const { data, error } = await this.supabase
+      .from('job_attempts')
+      .select('worker_id')
+      .eq('job_id', jobId)
+      .eq('crashed', true);
+
+    if (error) {
+      this.logger.warn(`⚠️ Failed to load crashed attempts of job ${jobId}:`, error);
+      return null;
+    }
+
+    const workerIds = Array.from(new Set((data || []).map(row => row.worker_id)));
+    return workerIds.length >= this.config.poisonJobWorkerThreshold ? new PoisonJobError(jobId, workerIds) : null;
+  }
+
+  // Exponential backoff from the job type's retry delay, capped and jittered so retries don't arrive together
+  private getBackoffSeconds(attempt: JobAttempt): number {
+    const delay = Math.min(
+      attempt.retryDelaySeconds * Math.pow(2, attempt.attempt - 1),
+      attempt.retryMaxDelaySeconds
+    );
+    return Math.round(this.retryManager.addJitter(delay));
+  }
+
+  private async updateJob(jobId: string, data: Record<string, any>): Promise<void> {
+    const { error } = await this.supabase
+      .from('job_queue')
+      .update(data)
+      .eq('id', jobId);
+
+    if (error) {
+      this.logger.error(`❌ Failed to update job ${jobId}:`, error);
+    }
+  }
+}
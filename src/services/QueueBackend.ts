@@ -0,0 +1,67 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Config, WorkerConfig } from '../config/Config';
+import { Job } from './JobClaimer';
+import { FailureOutcome, JobAttempt } from './JobRetryScheduler';
+import { SupabaseQueueBackend } from './SupabaseQueueBackend';
+import { BullQueueBackend } from './BullQueueBackend';
+
+/** A job_queue row to insert; status is 'pending', or 'scheduled' with a run_at. */
+export interface NewJob {
+  user_id: string;
+  job_type: string;
+  priority: number;
+  status: 'pending' | 'scheduled';
+  payload: Record<string, any>;
+  run_at?: string | null;
+  max_attempts?: number;
+  // Unique per operator; a retried create request with the same key gets the original job
+  idempotency_key?: string | null;
+  // Unique among queued and running jobs, e.g. one active import per operator and listing
+  dedupe_key?: string | null;
+  [column: string]: any;
+}
+
+export type FinishedJobStatus = 'completed' | 'cancelled';
+
+/**
+ * Where jobs wait to be claimed. Whichever backend is selected, every job keeps its
+ * job_queue row and status changes are written there, so the API and the admin
+ * tools read the same data in both modes.
+ */
+export interface QueueBackend {
+  readonly name: WorkerConfig['queueBackend'];
+
+  /** Inserts the jobs into job_queue and makes the pending ones claimable. Returns the inserted rows. */
+  enqueue(jobs: NewJob[]): Promise<any[]>;
+
+  /** Claims up to `slots` pending jobs of the given types for this worker, at most jobTypeSlots[type] of a capped type. */
+  claim(slots: number, jobTypes: string[], jobTypeSlots?: Record<string, number>): Promise<Job[]>;
+
+  /** Extends this worker's claim on a running job. False when the claim is no longer held. */
+  extend(jobId: string, jobType: string): Promise<boolean>;
+
+  complete(jobId: string, status: FinishedJobStatus, data?: Record<string, any>): Promise<void>;
+
+  /** Hands a claimed job back to the queue as pending without using up its attempt. */
+  release(jobId: string): Promise<void>;
+
+  /** Records a failed attempt; the job is retried later or dead-lettered. Without an attempt the job just fails. */
+  fail(jobId: string, attempt: JobAttempt | null, error: unknown): Promise<FailureOutcome>;
+
+  /** Makes scheduled jobs and retries whose run_at has passed claimable. Returns how many were promoted. */
+  promoteDueJobs(): Promise<number>;
+
+  close(): Promise<void>;
+}
+
+let backend: QueueBackend | undefined;
+
+/** The backend selected by QUEUE_BACKEND, shared by the API and the worker in this process. */
+export function getQueueBackend(supabase: SupabaseClient): QueueBackend {
+  if (!backend) {
+    backend = Config.getInstance().queueBackend === 'bull'
+      ? new BullQueueBackend(supabase)
+      : new SupabaseQueueBackend(supabase);
+  }
+  return backend;
+}
@@ -0,0 +1,141 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from '../utils/Logger';
+import { PermanentJobError, throwIfCancelled } from '../utils/JobErrors';
+
+export const REVIEW_STATS_JOB_TYPE = 'review_stats_recompute';
+
+export interface ReviewStatsPayload {
+  user_id: string;
+  // Limits the recompute to one review source; all of them when unset
+  platform?: string | null;
+}
+
+interface PlatformStats {
+  review_count: number;
+  average_rating: number | null;
+  // Review count per whole star rating, 1 to 5
+  rating_distribution: Record<string, number>;
+}
+
+interface StatsSummary {
+  review_count: number;
+  average_rating: number | null;
+  platforms: Record<string, PlatformStats>;
+  computed_at: string;
+}
+
+interface RatingTally {
+  reviews: number;
+  // Reviews with a 1 to 5 rating, the only ones averaged
+  rated: number;
+  ratingSum: number;
+  distribution: Record<string, number>;
+}
+
+const PAGE_SIZE = 1000;
+
+const newTally = (): RatingTally => ({
+  reviews: 0,
+  rated: 0,
+  ratingSum: 0,
+  distribution: { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 }
+});
+
+function addRating(tally: RatingTally, rating: number): void {
+  tally.reviews++;
+  if (!Number.isFinite(rating) || rating < 1 || rating > 5) {
+    return;
+  }
+
+  const star = String(Math.round(rating));
+  tally.distribution[star] = (tally.distribution[star] || 0) + 1;
+  tally.rated++;
+  tally.ratingSum += rating;
+}
+
+const toStats = (tally: RatingTally): PlatformStats => ({
+  review_count: tally.reviews,
+  average_rating: tally.rated > 0 ? Math.round((tally.ratingSum / tally.rated) * 100) / 100 : null,
+  rating_distribution: tally.distribution
+});
+
+/**
+ * Recomputes an operator's rating stats from their stored reviews, overall and per
+ * review source, and stores them as the job's result. Meant to run as a follow-up of
+ * an import, so the stats include the reviews it just wrote.
+ */
+export class ReviewStatsProcessor {
+  private logger = Logger.getInstance();
+
+  constructor(private supabase: SupabaseClient) {}
+
+  public async process(jobId: string, payload: ReviewStatsPayload, signal?: AbortSignal): Promise<void> {
+    if (!payload.user_id) {
+      throw new PermanentJobError('user_id is required');
+    }
+
+    this.logger.info(`📊 Recomputing review stats for operator ${payload.user_id} (job ${jobId})`);
+
+    const platforms = new Map<string, RatingTally>();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      throwIfCancelled(signal, jobId);
+
+      let query = this.supabase
+        .from('tripadvisor_reviews')
+        .select('id, source, rating')
+        .eq('tour_operator_id', payload.user_id);
+
+      if (payload.platform) {
+        query = query.eq('source', payload.platform);
+      }
+
+      const { data: rows, error } = await query
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load reviews: ${error.message}`);
+      }
+
+      for (const row of rows || []) {
+        const platform = row.source || 'unknown';
+        const tally = platforms.get(platform) || newTally();
+        addRating(tally, Number(row.rating));
+        platforms.set(platform, tally);
+      }
+
+      if (!rows || rows.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const overall = newTally();
+    const summary: StatsSummary = {
+      review_count: 0,
+      average_rating: null,
+      platforms: {},
+      computed_at: new Date().toISOString()
+    };
+
+    for (const [platform, tally] of platforms) {
+      summary.platforms[platform] = toStats(tally);
+      overall.reviews += tally.reviews;
+      overall.rated += tally.rated;
+      overall.ratingSum += tally.ratingSum;
+    }
+    summary.review_count = overall.reviews;
+    summary.average_rating = toStats(overall).average_rating;
+
+    const { error } = await this.supabase
+      .from('job_queue')
+      .update({ result: summary })
+      .eq('id', jobId);
+
+    if (error) {
+      throw new Error(`Failed to store review stats for job ${jobId}: ${error.message}`);
+    }
+
+    this.logger.info(`✅ Review stats recomputed: ${summary.review_count} reviews, average ${summary.average_rating ?? 'n/a'}`);
+  }
+}
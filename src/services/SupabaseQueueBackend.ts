@@ -0,0 +1,153 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Config } from '../config/Config';
+import { Logger } from '../utils/Logger';
+import { DuplicateJobError } from '../utils/JobErrors';
+import { Job, JobClaimer } from './JobClaimer';
+import { FailureOutcome, JobAttempt, JobRetryScheduler } from './JobRetryScheduler';
+import { FinishedJobStatus, NewJob, QueueBackend } from './QueueBackend';
+
+// Statuses of a job a worker still holds
+const CLAIMED_JOB_STATUSES = ['claimed', 'processing', 'cancelling'];
+
+// Postgres unique_violation, raised by the idempotency_key and active dedupe_key indexes
+// defined in migrations/20261019175252_job_queue_dedupe.sql
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Queues jobs in the job_queue table itself: workers poll it for pending rows and
+ * claim them with conditional updates through JobClaimer.
+ */
+export class SupabaseQueueBackend implements QueueBackend {
+  public readonly name = 'supabase';
+  private config = Config.getInstance();
+  private logger = Logger.getInstance();
+  private jobClaimer: JobClaimer;
+  private retryScheduler: JobRetryScheduler;
+
+  constructor(private supabase: SupabaseClient) {
+    this.jobClaimer = new JobClaimer(supabase);
+    this.retryScheduler = new JobRetryScheduler(supabase);
+  }
+
+  public async enqueue(jobs: NewJob[]): Promise<any[]> {
+    const { data, error } = await this.supabase
+      .from('job_queue')
+      .insert(jobs)
+      .select();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new DuplicateJobError(`Duplicate job: ${error.message}`);
+      }
+      throw new Error(`Failed to enqueue jobs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  public async claim(slots: number, jobTypes: string[], jobTypeSlots: Record<string, number> = {}): Promise<Job[]> {
+    return this.jobClaimer.claimJobs(slots, jobTypes, jobTypeSlots);
+  }
+
+  public async extend(jobId: string, jobType: string): Promise<boolean> {
+    const expiresAt = new Date(Date.now() + Config.getClaimDurationMinutes(jobType) * 60 * 1000);
+
+    const { data, error } = await this.supabase
+      .from('job_queue')
+      .update({ claim_expires_at: expiresAt.toISOString() })
+      .eq('id', jobId)
+      .eq('worker_id', this.config.workerId)
+      .in('status', CLAIMED_JOB_STATUSES)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to extend claim on job ${jobId}: ${error.message}`);
+    }
+
+    return !!data && data.length > 0;
+  }
+
+  public async complete(jobId: string, status: FinishedJobStatus, data: Record<string, any> = {}): Promise<void> {
+    await this.updateJob(jobId, {
+      status,
+      ...data,
+      completed_at: new Date().toISOString()
+    });
+  }
+
+  public async release(jobId: string): Promise<void> {
+    const { data: job, error } = await this.supabase
+      .from('job_queue')
+      .select('status, attempts')
+      .eq('id', jobId)
+      .eq('worker_id', this.config.workerId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load job ${jobId} for release: ${error.message}`);
+    }
+
+    // Released in the meantime, or no longer ours
+    if (!job || !CLAIMED_JOB_STATUSES.includes(job.status)) {
+      return;
+    }
+
+    // A cancellation requested while draining still wins
+    if (job.status === 'cancelling') {
+      await this.complete(jobId, 'cancelled');
+      return;
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('job_queue')
+      .update({
+        status: 'pending',
+        attempts: Math.max((job.attempts || 0) - 1, 0),
+        worker_id: null,
+        claimed_at: null,
+        claim_expires_at: null,
+        started_at: null
+      })
+      .eq('id', jobId)
+      .eq('worker_id', this.config.workerId);
+
+    if (updateError) {
+      throw new Error(`Failed to release job ${jobId}: ${updateError.message}`);
+    }
+
+    this.logger.info(`↩️ Released job ${jobId} back to the queue`);
+  }
+
+  public async fail(jobId: string, attempt: JobAttempt | null, error: unknown): Promise<FailureOutcome> {
+    if (attempt) {
+      return this.retryScheduler.handleFailure(jobId, attempt, error);
+    }
+
+    await this.updateJob(jobId, {
+      status: 'failed',
+      error_message: error instanceof Error ? error.message : 'Unknown error',
+      error_details: { error: error instanceof Error ? error.stack : error },
+      completed_at: new Date().toISOString()
+    });
+    return 'failed';
+  }
+
+  public async promoteDueJobs(): Promise<number> {
+    return this.jobClaimer.promoteDueJobs();
+  }
+
+  public async close(): Promise<void> {
+    // Nothing to release; the Supabase client is shared
+  }
+
+  private async updateJob(jobId: string, data: Record<string, any>): Promise<void> {
+    const { error } = await this.supabase
+      .from('job_queue')
+      .update(data)
+      .eq('id', jobId);
+
+    if (error) {
+      this.logger.error(`❌ Failed to update job ${jobId} status to ${data.status}:`, error);
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Config } from '../config/Config';
+import { Logger } from '../utils/Logger';
+import { DataForSEOClient } from '../clients/DataForSEOClient';
+import { ReviewSourceProvider } from '../providers/ReviewSourceProvider';
+import { TaskResultStore } from './TaskResultStore';
+import { getCancellationError } from '../utils/JobErrors';
+
+type TaskSource = Pick<ReviewSourceProvider, 'endpoint' | 'fetchTaskResult' | 'parseTaskResult'>;
+
+interface TaskWaiter {
+  taskId: string;
+  jobId: string;
+  source: TaskSource;
+  deadline: number;
+  ticksWaited: number;
+  // Resumed tasks may already have been collected, so they skip the tasks_ready check once
+  fetchNow: boolean;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  unsubscribe: () => void;
+}
+
+// Waiters not seen in tasks_ready for this many ticks are checked with task_get directly,
+// in case another client collected the task or it fell outside the tasks_ready window
+const DIRECT_FETCH_EVERY_TICKS = 6;
+
+/**
+ * One polling loop per worker for every in-flight DataForSEO task. Each tick asks
+ * tasks_ready once per endpoint and hands finished results to the job waiting on
+ * that task id. Results delivered by postback/pingback resolve waiters as well.
+ */
+export class TaskPoller {
+  private config = Config.getInstance();
+  private logger = Logger.getInstance();
+  private dataForSEOClient = new DataForSEOClient();
+  private taskResultStore: TaskResultStore;
+
+  private waiters = new Map<string, TaskWaiter>();
+  private pollInterval?: NodeJS.Timeout;
+  private isPolling = false;
+
+  constructor(supabase: SupabaseClient) {
+    this.taskResultStore = new TaskResultStore(supabase);
+  }
+
+  public start(): void {
+    this.pollInterval = setInterval(async () => {
+      if (this.isPolling || this.waiters.size === 0) {
+        return;
+      }
+
+      this.isPolling = true;
+      try {
+        await this.poll();
+      } catch (error) {
+        this.logger.error('📡 Task polling failed:', error);
+      } finally {
+        this.isPolling = false;
+      }
+    }, this.config.taskPollIntervalSeconds * 1000);
+  }
+
+  public stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+    }
+
+    for (const waiter of Array.from(this.waiters.values())) {
+      this.settle(waiter, () => waiter.reject(new Error('Task poller stopped')));
+    }
+  }
+
+  public async registerTask(taskId: string, endpoint: string, jobId: string): Promise<void> {
+    // Callbacks are matched back to the job through the registered task
+    if (this.dataForSEOClient.hasCallbacks()) {
+      await this.taskResultStore.registerTask(taskId, endpoint, jobId);
+    }
+  }
+
+  /**
+   * Resolves with the task's first result once DataForSEO has finished it.
+   * Rejects with a JobCancelledError as soon as the job's signal is aborted.
+   */
+  public waitFor(
+    taskId: string,
+    jobId: string,
+    source: TaskSource,
+    resumed: boolean = false,
+    signal?: AbortSignal
+  ): Promise<any> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(getCancellationError(signal, jobId));
+        return;
+      }
+
+      const waiter: TaskWaiter = {
+        taskId,
+        jobId,
+        source,
+        deadline: Date.now() + this.config.taskWaitTimeoutMinutes * 60 * 1000,
+        ticksWaited: 0,
+        fetchNow: resumed,
+        resolve,
+        reject,
+        unsubscribe: () => {}
+      };
+
+      // A callback received by this process resolves the waiter without waiting for the next tick
+      const unsubscribeResult = this.taskResultStore.subscribe(taskId, task => this.deliver(waiter, task));
+      const onAbort = () => this.settle(waiter, () => waiter.reject(getCancellationError(signal, jobId)));
+      signal?.addEventListener('abort', onAbort, { once: true });
+      waiter.unsubscribe = () => {
+        unsubscribeResult();
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      this.waiters.set(taskId, waiter);
+      this.logger.debug(`📡 Job ${jobId} waiting on DataForSEO task ${taskId} (${this.waiters.size} waiting)`);
+    });
+  }
+
+  /** Number of distinct jobs currently parked on a DataForSEO task. */
+  public getWaitingJobCount(): number {
+    return new Set(Array.from(this.waiters.values()).map(waiter => waiter.jobId)).size;
+  }
+
+  private async poll(): Promise<void> {
+    const waiters = Array.from(this.waiters.values());
+    const now = Date.now();
+
+    for (const waiter of waiters) {
+      waiter.ticksWaited++;
+      if (now > waiter.deadline) {
+        this.settle(waiter, () => waiter.reject(
+          new Error(`DataForSEO task ${waiter.taskId} timed out after ${this.config.taskWaitTimeoutMinutes} minutes`)
+        ));
+      }
+    }
+
+    const pending = waiters.filter(waiter => this.waiters.has(waiter.taskId));
+    if (pending.length === 0) {
+      return;
+    }
+
+    // Results another instance received by callback
+    if (this.dataForSEOClient.hasCallbacks()) {
+      const stored = await this.taskResultStore.getTaskResults(pending.map(waiter => waiter.taskId));
+      for (const [taskId, task] of stored) {
+        const waiter = this.waiters.get(taskId);
+        if (waiter) {
+          this.deliver(waiter, task);
+        }
+      }
+    }
+
+    // One tasks_ready call per endpoint covers every waiting job
+    const byEndpoint = new Map<string, TaskWaiter[]>();
+    for (const waiter of pending.filter(waiter => this.waiters.has(waiter.taskId))) {
+      const group = byEndpoint.get(waiter.source.endpoint) || [];
+      group.push(waiter);
+      byEndpoint.set(waiter.source.endpoint, group);
+    }
+
+    for (const [endpoint, group] of byEndpoint) {
+      let readyIds = new Set<string>();
+      try {
+        readyIds = new Set(await this.dataForSEOClient.getTasksReady(endpoint));
+      } catch (error) {
+        this.logger.warn(`⚠️ tasks_ready failed for ${endpoint}, falling back to task_get`, error);
+      }
+
+      for (const waiter of group) {
+        if (readyIds.has(waiter.taskId) || waiter.fetchNow || waiter.ticksWaited % DIRECT_FETCH_EVERY_TICKS === 0) {
+          waiter.fetchNow = false;
+          await this.fetch(waiter);
+        }
+      }
+    }
+  }
+
+  private async fetch(waiter: TaskWaiter): Promise<void> {
+    try {
+      const taskResult = await waiter.source.fetchTaskResult(waiter.taskId);
+      if (taskResult.status === 'ready') {
+        this.logger.info(`✅ DataForSEO results ready for task: ${waiter.taskId}`);
+        this.settle(waiter, () => waiter.resolve(taskResult.result));
+      }
+    } catch (error) {
+      this.settle(waiter, () => waiter.reject(error instanceof Error ? error : new Error(String(error))));
+    }
+  }
+
+  private deliver(waiter: TaskWaiter, task: any): void {
+    try {
+      const taskResult = waiter.source.parseTaskResult(task);
+      if (taskResult.status === 'ready') {
+        this.logger.info(`✅ DataForSEO callback delivered results for task: ${waiter.taskId}`);
+        this.settle(waiter, () => waiter.resolve(taskResult.result));
+      }
+    } catch (error) {
+      this.settle(waiter, () => waiter.reject(error instanceof Error ? error : new Error(String(error))));
+    }
+  }
+
+  private settle(waiter: TaskWaiter, settleFn: () => void): void {
+    if (this.waiters.get(waiter.taskId) !== waiter) {
+      return;
+    }
+    this.waiters.delete(waiter.taskId);
+    waiter.unsubscribe();
+    settleFn();
+  }
+}
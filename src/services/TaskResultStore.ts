@@ -0,0 +1,106 @@
+import { EventEmitter } from 'events';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from '../utils/Logger';
+
+export interface StoredTask {
+  task_id: string;
+  endpoint: string;
+  queue_job_id: string | null;
+  status: 'pending' | 'ready';
+  // Raw DataForSEO task object (status_code, status_message, result...)
+  task: any;
+}
+
+/**
+ * Persists DataForSEO tasks and the results delivered by postbacks/pingbacks in
+ * `dataforseo_tasks`, so any worker can pick up a result the API received.
+ * Results stored in this process are also announced in-process so a waiting job
+ * can resume without its next database check.
+ */
+export class TaskResultStore {
+  private static events = new EventEmitter().setMaxListeners(0);
+  private logger = Logger.getInstance();
+
+  constructor(private supabase: SupabaseClient) {}
+
+  public async registerTask(taskId: string, endpoint: string, queueJobId: string | null): Promise<void> {
+    // A fast postback may already have stored the row
+    const { error } = await this.supabase
+      .from('dataforseo_tasks')
+      .upsert({
+        task_id: taskId,
+        endpoint,
+        queue_job_id: queueJobId,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      }, { onConflict: 'task_id', ignoreDuplicates: true });
+
+    if (error) {
+      this.logger.warn(`⚠️ Failed to register DataForSEO task ${taskId}:`, error);
+    }
+  }
+
+  public async getRegisteredTask(taskId: string): Promise<StoredTask | null> {
+    const { data, error } = await this.supabase
+      .from('dataforseo_tasks')
+      .select('task_id, endpoint, queue_job_id, status, task')
+      .eq('task_id', taskId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load DataForSEO task ${taskId}: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async saveTaskResult(task: any, endpoint?: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('dataforseo_tasks')
+      .upsert({
+        task_id: task.id,
+        ...(endpoint ? { endpoint } : {}),
+        status: 'ready',
+        task,
+        completed_at: new Date().toISOString()
+      }, { onConflict: 'task_id' });
+
+    if (error) {
+      throw new Error(`Failed to store DataForSEO task ${task.id}: ${error.message}`);
+    }
+
+    TaskResultStore.events.emit(task.id, task);
+    this.logger.debug(`📥 Stored DataForSEO result for task ${task.id}`);
+  }
+
+  /** Raw tasks already delivered by callbacks, keyed by task id. */
+  public async getTaskResults(taskIds: string[]): Promise<Map<string, any>> {
+    const results = new Map<string, any>();
+    if (taskIds.length === 0) {
+      return results;
+    }
+
+    const { data, error } = await this.supabase
+      .from('dataforseo_tasks')
+      .select('task_id, task')
+      .in('task_id', taskIds)
+      .eq('status', 'ready');
+
+    if (error) {
+      throw new Error(`Failed to load DataForSEO results: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      results.set(row.task_id, row.task);
+    }
+    return results;
+  }
+
+  /** Calls listener when this process stores the task's result; returns an unsubscribe function. */
+  public subscribe(taskId: string, listener: (task: any) => void): () => void {
+    TaskResultStore.events.once(taskId, listener);
+    return () => {
+      TaskResultStore.events.off(taskId, listener);
+    };
+  }
+}
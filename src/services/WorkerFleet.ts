@@ -0,0 +1,139 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from '../utils/Logger';
+
+/**
+ * What operations asked a worker to do. A paused worker stops claiming; a draining
+ * worker also fails its readiness check and releases the jobs still running after
+ * drainTimeoutSeconds, as on shutdown. Both keep running until resumed.
+ */
+export type WorkerCommandedState = 'running' | 'paused' | 'draining';
+
+// Statuses of a job a worker holds
+const ACTIVE_JOB_STATUSES = ['claimed', 'processing', 'cancelling'];
+
+/**
+ * Control surface over the worker fleet. Commands are written to the workers row
+ * (commanded_state) and to paused_job_types; each worker reads them on its next
+ * heartbeat, so a command takes effect within one heartbeat interval.
+ */
+export class WorkerFleet {
+  private logger = Logger.getInstance();
+
+  constructor(private supabase: SupabaseClient) {}
+
+  /** Workers with the jobs each one currently holds. Offline workers are left out unless asked for. */
+  public async listWorkers(includeOffline: boolean): Promise<any[]> {
+    let query = this.supabase
+      .from('workers')
+      .select('*')
+      .order('registered_at', { ascending: true });
+
+    if (!includeOffline) {
+      query = query.neq('status', 'offline');
+    }
+
+    const { data: workers, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list workers: ${error.message}`);
+    }
+
+    if (!workers || workers.length === 0) {
+      return [];
+    }
+
+    const { data: jobs, error: jobsError } = await this.supabase
+      .from('job_queue')
+      .select('id, worker_id, user_id, job_type, status, claimed_at, started_at, claim_expires_at')
+      .in('worker_id', workers.map(worker => worker.id))
+      .in('status', ACTIVE_JOB_STATUSES);
+
+    if (jobsError) {
+      throw new Error(`Failed to load worker jobs: ${jobsError.message}`);
+    }
+
+    return workers.map(worker => ({
+      ...worker,
+      commanded_state: worker.commanded_state || 'running',
+      current_jobs: (jobs || []).filter(job => job.worker_id === worker.id)
+    }));
+  }
+
+  /** Returns false when there is no such worker. */
+  public async setCommandedState(workerId: string, state: WorkerCommandedState): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('workers')
+      .update({
+        commanded_state: state,
+        commanded_at: new Date().toISOString()
+      })
+      .eq('id', workerId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to set worker ${workerId} to ${state}: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      return false;
+    }
+
+    this.logger.info(`🎛️ Worker ${workerId} commanded to ${state}`);
+    return true;
+  }
+
+  /** Reads the state operations commanded for a worker. */
+  public async getCommandedState(workerId: string): Promise<WorkerCommandedState> {
+    const { data, error } = await this.supabase
+      .from('workers')
+      .select('commanded_state')
+      .eq('id', workerId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load commanded state of worker ${workerId}: ${error.message}`);
+    }
+
+    return data?.commanded_state || 'running';
+  }
+
+  public async pauseJobType(jobType: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('paused_job_types')
+      .upsert({
+        job_type: jobType,
+        paused_at: new Date().toISOString()
+      }, { onConflict: 'job_type' });
+
+    if (error) {
+      throw new Error(`Failed to pause job type ${jobType}: ${error.message}`);
+    }
+
+    this.logger.info(`⏸️ Job type ${jobType} paused`);
+  }
+
+  public async resumeJobType(jobType: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('paused_job_types')
+      .delete()
+      .eq('job_type', jobType);
+
+    if (error) {
+      throw new Error(`Failed to resume job type ${jobType}: ${error.message}`);
+    }
+
+    this.logger.info(`▶️ Job type ${jobType} resumed`);
+  }
+
+  public async getPausedJobTypes(): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('paused_job_types')
+      .select('job_type');
+
+    if (error) {
+      throw new Error(`Failed to load paused job types: ${error.message}`);
+    }
+
+    return (data || []).map(row => row.job_type);
+  }
+}
@@ -2,22 +2,41 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import cron from 'node-cron';
 import { Config, WorkerConfig } from '../config/Config';
 import { Logger } from '../utils/Logger';
-import { JobProcessor } from './JobProcessor';
 import { MetricsCollector } from './MetricsCollector';
+import { TaskPoller } from './TaskPoller';
+import { JobAttempt, JobRetryScheduler } from './JobRetryScheduler';
+import { Job } from './JobClaimer';
+import { getQueueBackend, QueueBackend } from './QueueBackend';
+import { JobChainer } from './JobChainer';
+import { JobNotifier } from './JobNotifier';
+import { WorkerReaper } from './WorkerReaper';
+import { WorkerCommandedState, WorkerFleet } from './WorkerFleet';
+import { ConcurrencyChange, ConcurrencyController } from './ConcurrencyController';
+import { JobHandler } from '../handlers/JobHandler';
+import { JobHandlerRegistry } from '../handlers/JobHandlerRegistry';
+import {
+  classifyError,
+  JobCancelledError,
+  JobReleasedError,
+  JobTimeoutError,
+  LeaseLostError,
+  PermanentJobError
+} from '../utils/JobErrors';
 
-interface Job {
-  id: string;
-  job_type: string;
-  payload: any;
-  priority: number;
-}
+// How long jobs aborted at the drain deadline get to stop before they are released
+const RELEASE_GRACE_PERIOD_MS = 10000;
 
 interface WorkerStatus {
   id: string;
   hostname: string;
-  status: 'idle' | 'busy' | 'offline';
+  status: 'idle' | 'busy' | 'paused' | 'draining' | 'offline';
+  commanded_state: WorkerCommandedState;
+  supported_job_types: string[];
+  paused_job_types: string[];
   current_job_count: number;
+  waiting_job_count: number;
   max_concurrent_jobs: number;
+  concurrency_limit: number;
   last_heartbeat: string;
 }
 
@@ -25,13 +44,31 @@ export class WorkerManager {
   private config: WorkerConfig;
   private logger: Logger;
   private supabase: SupabaseClient;
-  private jobProcessor: JobProcessor;
   private metricsCollector: MetricsCollector;
+  private taskPoller: TaskPoller;
+  private retryScheduler: JobRetryScheduler;
+  private queueBackend: QueueBackend;
+  private jobChainer: JobChainer;
+  private jobNotifier: JobNotifier;
+  private workerReaper: WorkerReaper;
+  private workerFleet: WorkerFleet;
+  private concurrency = ConcurrencyController.getInstance();
+  private jobHandlers = JobHandlerRegistry.getInstance();
   
   private isRunning = false;
+  private isDraining = false;
+  // Set through the admin API and read on heartbeat
+  private commandedState: WorkerCommandedState = 'running';
+  private pausedJobTypes: string[] = [];
   private currentJobs = new Map<string, Promise<void>>();
+  // Job type of each job in currentJobs, for the per-type caps
+  private currentJobTypes = new Map<string, string>();
+  private jobControllers = new Map<string, AbortController>();
   private heartbeatInterval?: NodeJS.Timeout;
-  private jobPollingInterval?: NodeJS.Timeout;
+  private jobPollingTimeout?: NodeJS.Timeout;
+  private jobPollDelayMs = 0;
+  private isPollingJobs = false;
+  private jobPollRequested = false;
   
   constructor() {
     this.config = Config.getInstance();
@@ -42,20 +79,41 @@ export class WorkerManager {
       this.config.supabaseServiceKey
     );
     
-    this.jobProcessor = new JobProcessor(this.supabase);
+    this.taskPoller = new TaskPoller(this.supabase);
     this.metricsCollector = new MetricsCollector(this.supabase);
+    this.retryScheduler = new JobRetryScheduler(this.supabase);
+    this.queueBackend = getQueueBackend(this.supabase);
+    this.jobChainer = new JobChainer(this.supabase);
+    this.jobNotifier = new JobNotifier(this.supabase);
+    this.workerReaper = new WorkerReaper(this.supabase);
+    this.workerFleet = new WorkerFleet(this.supabase);
   }
   
   public async start(): Promise<void> {
     this.logger.info('🔄 Starting Worker Manager');
     
     try {
+      this.validateWorkerJobTypes();
+      
       // Register worker
       await this.registerWorker();
+      await this.applyFleetCommands();
+      
+      // A restart under a stable worker id finds its previous run's claims
+      const leftoverJobs = await this.workerReaper.requeueJobsOf(this.config.workerId);
+      if (leftoverJobs.length > 0) {
+        this.logger.info(`♻️ Requeued ${leftoverJobs.length} jobs left claimed by a previous run of ${this.config.workerId}`);
+      }
       
       // Start heartbeat
       this.startHeartbeat();
       
+      // Start the shared DataForSEO task poller
+      this.taskPoller.start();
+      
+      // Adapt the slot count to memory, event-loop and downstream pressure
+      this.concurrency.start(change => this.recordConcurrencyChange(change));
+      
       // Start job polling
       this.startJobPolling();
       
@@ -71,50 +129,116 @@ export class WorkerManager {
     }
   }
   
+  /**
+   * Drains the worker: no new claims are made, running jobs get drainTimeoutSeconds
+   * to finish, and the rest are stopped at their last checkpoint and released back
+   * to pending without using up an attempt.
+   */
   public async stop(): Promise<void> {
-    this.logger.info('🛑 Stopping Worker Manager');
+    this.logger.info('🛑 Draining Worker Manager');
     
     this.isRunning = false;
+    this.isDraining = true;
     
-    // Stop intervals
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-    }
-    
-    if (this.jobPollingInterval) {
-      clearInterval(this.jobPollingInterval);
+    // Stop claiming; the heartbeat keeps renewing claims of running jobs while they finish
+    if (this.jobPollingTimeout) {
+      clearTimeout(this.jobPollingTimeout);
     }
+    await this.jobNotifier.stop();
     
-    // Wait for current jobs to complete (with timeout)
-    const jobPromises = Array.from(this.currentJobs.values());
-    if (jobPromises.length > 0) {
-      this.logger.info(`⏳ Waiting for ${jobPromises.length} jobs to complete...`);
+    if (this.currentJobs.size > 0) {
+      this.logger.info(`⏳ Waiting up to ${this.config.drainTimeoutSeconds}s for ${this.currentJobs.size} jobs to complete...`);
       
-      try {
-        await Promise.race([
-          Promise.all(jobPromises),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Job completion timeout')), 60000)
-          )
-        ]);
-      } catch (error) {
-        this.logger.warn('⚠️ Some jobs did not complete within timeout');
+      if (!(await this.waitForJobs(this.config.drainTimeoutSeconds * 1000))) {
+        await this.releaseRunningJobs();
       }
     }
     
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+    }
+    
+    this.taskPoller.stop();
+    this.concurrency.stop();
+    await this.queueBackend.close();
+    
     // Unregister worker
     await this.unregisterWorker();
     
     this.logger.info('✅ Worker Manager stopped');
   }
   
+  public isReady(): boolean {
+    return this.isRunning && !this.isDraining && this.commandedState !== 'draining';
+  }
+  
+  /**
+   * Drains like stop() when commanded to through the admin API, but stays registered:
+   * running jobs get drainTimeoutSeconds to finish and the rest are released back to
+   * pending, unless the worker was resumed in the meantime.
+   */
+  private async drainOnCommand(): Promise<void> {
+    if (this.currentJobs.size === 0) {
+      return;
+    }
+    
+    this.logger.info(`⏳ Draining on command, waiting up to ${this.config.drainTimeoutSeconds}s for ${this.currentJobs.size} jobs to complete...`);
+    
+    if (await this.waitForJobs(this.config.drainTimeoutSeconds * 1000)) {
+      return;
+    }
+    
+    // Resumed, or stop() took over the drain
+    if (this.commandedState !== 'draining' || this.isDraining) {
+      return;
+    }
+    
+    await this.releaseRunningJobs();
+  }
+  
+  /** Resolves true once every running job has finished, or false at the timeout. */
+  private async waitForJobs(timeoutMs: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    
+    const finished = await Promise.race([
+      Promise.all(Array.from(this.currentJobs.values())).then(() => true),
+      timeout
+    ]);
+    clearTimeout(timer);
+    return finished;
+  }
+  
+  private async releaseRunningJobs(): Promise<void> {
+    const jobIds = Array.from(this.jobControllers.keys());
+    this.logger.warn(`⚠️ Releasing ${jobIds.length} unfinished jobs back to the queue`);
+    
+    for (const jobId of jobIds) {
+      this.jobControllers.get(jobId)?.abort(new JobReleasedError(jobId));
+    }
+    
+    // Give aborted jobs a moment to reach a cancellation point, so nothing writes after the release
+    await this.waitForJobs(RELEASE_GRACE_PERIOD_MS);
+    
+    for (const jobId of jobIds) {
+      try {
+        await this.queueBackend.release(jobId);
+      } catch (error) {
+        // The claim expires and is released by release_expired_claims instead
+        this.logger.error(`❌ Failed to release job ${jobId}:`, error);
+      }
+    }
+  }
+  
   private async registerWorker(): Promise<void> {
     const workerData = {
       id: this.config.workerId,
       hostname: this.config.hostname,
       process_id: process.pid,
       version: this.config.workerVersion,
-      supported_job_types: ['tripadvisor_import'],
+      supported_job_types: this.getSupportedJobTypes(),
       max_concurrent_jobs: this.config.maxConcurrentJobs,
       current_job_count: 0,
       status: 'idle' as const,
@@ -165,123 +289,349 @@ export class WorkerManager {
       .update({
         last_heartbeat: new Date().toISOString(),
         current_job_count: this.currentJobs.size,
-        status: this.currentJobs.size > 0 ? 'busy' : 'idle'
+        status: this.getWorkerStatus()
       })
       .eq('id', this.config.workerId);
     
+    this.concurrency.recordDownstreamResult('supabase', !error);
     if (error) {
       throw new Error(`Heartbeat failed: ${error.message}`);
     }
     
     this.logger.debug(`💓 Heartbeat sent (${this.currentJobs.size} active jobs)`);
+    
+    await this.extendClaims();
+    await this.checkForCancellations();
+    await this.applyFleetCommands();
   }
   
-  private startJobPolling(): void {
-    this.jobPollingInterval = setInterval(async () => {
-      if (this.isRunning && this.canAcceptMoreJobs()) {
-        try {
-          await this.pollForJobs();
-        } catch (error) {
-          this.logger.error('🔍 Job polling failed:', error);
-        }
+  /** Picks up the commanded state and paused job types set through the admin API. */
+  private async applyFleetCommands(): Promise<void> {
+    try {
+      const [commandedState, pausedJobTypes] = await Promise.all([
+        this.workerFleet.getCommandedState(this.config.workerId),
+        this.workerFleet.getPausedJobTypes()
+      ]);
+      
+      if (commandedState !== this.commandedState) {
+        this.logger.info(`🎛️ Worker commanded to ${commandedState} (was ${this.commandedState})`);
       }
-    }, 5000); // Poll every 5 seconds
+      
+      const resumed = (this.commandedState !== 'running' && commandedState === 'running') ||
+        this.pausedJobTypes.some(jobType => !pausedJobTypes.includes(jobType));
+      const drain = this.commandedState !== 'draining' && commandedState === 'draining';
+      
+      this.commandedState = commandedState;
+      this.pausedJobTypes = pausedJobTypes;
+      
+      if (resumed) {
+        this.requestJobPoll();
+      }
+      
+      if (drain) {
+        this.drainOnCommand().catch(error => {
+          this.logger.error('❌ Commanded drain failed:', error);
+        });
+      }
+    } catch (error) {
+      // Keep the last known commands
+      this.logger.warn('⚠️ Failed to read fleet commands:', error);
+    }
   }
   
-  private canAcceptMoreJobs(): boolean {
-    return this.currentJobs.size < this.config.maxConcurrentJobs;
+  /**
+   * Renews the claim on every running job so long imports outlive
+   * their claim duration. A job whose claim was released in the meantime is
+   * aborted, since another worker may already be running it.
+   */
+  private async extendClaims(): Promise<void> {
+    for (const [jobId, controller] of Array.from(this.jobControllers.entries())) {
+      const jobType = this.currentJobTypes.get(jobId) as string;
+      try {
+        if (!(await this.queueBackend.extend(jobId, jobType)) && !controller.signal.aborted) {
+          this.logger.warn(`⚠️ Lost the claim on job ${jobId}, stopping it`);
+          controller.abort(new LeaseLostError(jobId));
+        }
+      } catch (error) {
+        // Keep the job running; the claim is retried on the next heartbeat
+        this.logger.warn(`⚠️ Failed to extend claim on job ${jobId}:`, error);
+      }
+    }
   }
   
-  private async pollForJobs(): Promise<void> {
-    const availableSlots = this.config.maxConcurrentJobs - this.currentJobs.size;
+  /**
+   * Aborts running jobs that were marked cancelling through the API. The job
+   * stops at its next cancellation point and is then marked cancelled.
+   */
+  private async checkForCancellations(): Promise<void> {
+    if (this.jobControllers.size === 0) {
+      return;
+    }
     
-    for (let i = 0; i < availableSlots; i++) {
-      const job = await this.claimNextJob();
-      if (job) {
-        this.processJob(job);
-      } else {
-        break; // No more jobs available
+    const { data, error } = await this.supabase
+      .from('job_queue')
+      .select('id')
+      .in('id', Array.from(this.jobControllers.keys()))
+      .eq('status', 'cancelling');
+    
+    if (error) {
+      this.logger.warn('⚠️ Failed to check for cancelled jobs:', error);
+      return;
+    }
+    
+    for (const row of data || []) {
+      const controller = this.jobControllers.get(row.id);
+      if (controller && !controller.signal.aborted) {
+        this.logger.info(`🛑 Cancelling job ${row.id}`);
+        controller.abort();
       }
     }
   }
   
-  private async claimNextJob(): Promise<Job | null> {
+  private startJobPolling(): void {
+    this.jobPollDelayMs = this.config.jobPollMinIntervalSeconds * 1000;
+    
+    if (this.config.jobNotificationsEnabled) {
+      this.jobNotifier.start(jobType => {
+        if (this.getClaimableJobTypes().includes(jobType)) {
+          this.requestJobPoll();
+        }
+      });
+    }
+    
+    this.scheduleJobPoll(this.jobPollDelayMs);
+  }
+  
+  /** Polls right away, or straight after the poll in progress. */
+  private requestJobPoll(): void {
+    if (!this.isRunning || !this.canAcceptMoreJobs()) {
+      return;
+    }
+    
+    if (this.isPollingJobs) {
+      this.jobPollRequested = true;
+    } else {
+      this.scheduleJobPoll(0);
+    }
+  }
+  
+  private scheduleJobPoll(delayMs: number): void {
+    if (this.jobPollingTimeout) {
+      clearTimeout(this.jobPollingTimeout);
+    }
+    this.jobPollingTimeout = setTimeout(() => this.runJobPoll(), delayMs);
+  }
+  
+  /**
+   * Polls at the minimum interval while polls keep finding jobs and doubles the
+   * interval up to the maximum while the queue is idle. Notifications and freed
+   * slots trigger a poll in between.
+   */
+  private async runJobPoll(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+    
+    this.isPollingJobs = true;
+    let claimed = 0;
+    
     try {
-      const { data, error } = await this.supabase
-        .rpc('claim_next_job', {
-          worker_id_param: this.config.workerId,
-          supported_job_types_param: ['tripadvisor_import'],
-          claim_duration_minutes: this.config.jobClaimDurationMinutes
-        });
-      
-      if (error) {
-        throw new Error(`Failed to claim job: ${error.message}`);
+      if (this.canAcceptMoreJobs()) {
+        claimed = await this.pollForJobs();
       }
-      
-      if (data && data.length > 0) {
-        const job = data[0];
-        this.logger.info(`🎯 Claimed job: ${job.job_id} (${job.job_type})`);
-        return {
-          id: job.job_id,
-          job_type: job.job_type,
-          payload: job.payload,
-          priority: job.priority
-        };
+    } catch (error) {
+      this.logger.error('🔍 Job polling failed:', error);
+    } finally {
+      this.isPollingJobs = false;
+    }
+    
+    const minDelayMs = this.config.jobPollMinIntervalSeconds * 1000;
+    const maxDelayMs = this.config.jobPollMaxIntervalSeconds * 1000;
+    this.jobPollDelayMs = claimed > 0 ? minDelayMs : Math.min(this.jobPollDelayMs * 2, maxDelayMs);
+    
+    if (!this.isRunning) {
+      return;
+    }
+    
+    if (this.jobPollRequested) {
+      this.jobPollRequested = false;
+      this.scheduleJobPoll(0);
+    } else {
+      this.scheduleJobPoll(this.jobPollDelayMs);
+    }
+  }
+  
+  private getKnownJobTypes(): string[] {
+    return this.jobHandlers.getJobTypes();
+  }
+  
+  // The job types of this worker's pool: WORKER_JOB_TYPES, or every known type when unset
+  private getSupportedJobTypes(): string[] {
+    return this.config.workerJobTypes.length > 0 ? this.config.workerJobTypes : this.getKnownJobTypes();
+  }
+  
+  // A typo in WORKER_JOB_TYPES would leave the pool silently idle
+  private validateWorkerJobTypes(): void {
+    const knownJobTypes = this.getKnownJobTypes();
+    const configuredJobTypes = [
+      ...this.config.workerJobTypes,
+      ...Object.keys(this.config.jobTypeConcurrency),
+      ...Object.keys(this.config.jobTypeClaimDurationMinutes),
+      ...Object.keys(this.config.jobTypeTimeoutSeconds)
+    ];
+    const unknownJobTypes = configuredJobTypes.filter(jobType => !knownJobTypes.includes(jobType));
+    
+    if (unknownJobTypes.length > 0) {
+      throw new Error(`Unknown job types in worker configuration: ${Array.from(new Set(unknownJobTypes)).join(', ')}`);
+    }
+  }
+  
+  // Supported job types that aren't paused fleet-wide or at their per-type cap
+  private getClaimableJobTypes(): string[] {
+    const jobTypeSlots = this.getJobTypeSlots();
+    return this.getSupportedJobTypes().filter(jobType =>
+      !this.pausedJobTypes.includes(jobType) && jobTypeSlots[jobType] !== 0
+    );
+  }
+  
+  // Free slots of each job type with a JOB_TYPE_CONCURRENCY cap
+  private getJobTypeSlots(): Record<string, number> {
+    const jobTypeSlots: Record<string, number> = {};
+    const runningJobTypes = Array.from(this.currentJobTypes.values());
+    
+    for (const [jobType, limit] of Object.entries(this.config.jobTypeConcurrency)) {
+      const running = runningJobTypes.filter(runningJobType => runningJobType === jobType).length;
+      jobTypeSlots[jobType] = Math.max(0, limit - running);
+    }
+    
+    return jobTypeSlots;
+  }
+  
+  private canAcceptMoreJobs(): boolean {
+    return this.commandedState === 'running' && this.getAvailableSlots() > 0 && this.getClaimableJobTypes().length > 0;
+  }
+  
+  /**
+   * Jobs parked on a DataForSEO task don't hold a slot, but the total number of
+   * in-flight jobs is still capped at maxConcurrentJobs + maxWaitingJobs.
+   */
+  private getAvailableSlots(): number {
+    const activeJobs = this.currentJobs.size - this.taskPoller.getWaitingJobCount();
+    const limit = this.concurrency.getLimit();
+    const activeSlots = limit - activeJobs;
+    const totalSlots = limit + this.config.maxWaitingJobs - this.currentJobs.size;
+    return Math.max(0, Math.min(activeSlots, totalSlots));
+  }
+  
+  private async pollForJobs(): Promise<number> {
+    const availableSlots = this.getAvailableSlots();
+    
+    try {
+      const jobs = await this.queueBackend.claim(availableSlots, this.getClaimableJobTypes(), this.getJobTypeSlots());
+      this.concurrency.recordDownstreamResult('supabase', true);
+      for (const job of jobs) {
+        this.processJob(job);
       }
-      
-      return null;
+      return jobs.length;
     } catch (error) {
-      this.logger.error('❌ Failed to claim job:', error);
-      return null;
+      this.concurrency.recordDownstreamResult('supabase', false);
+      this.logger.error('❌ Failed to claim jobs:', error);
+      return 0;
     }
   }
   
   private processJob(job: Job): void {
-    const jobPromise = this.executeJob(job)
+    const controller = new AbortController();
+    this.jobControllers.set(job.id, controller);
+    
+    const jobPromise = this.executeJob(job, controller)
       .catch(error => {
         this.logger.error(`❌ Job ${job.id} failed:`, error);
       })
       .finally(() => {
         this.currentJobs.delete(job.id);
+        this.currentJobTypes.delete(job.id);
+        this.jobControllers.delete(job.id);
         this.logger.debug(`🏁 Job ${job.id} completed, ${this.currentJobs.size} jobs remaining`);
+        
+        // A busy queue likely has more work for the freed slot
+        if (this.jobPollDelayMs <= this.config.jobPollMinIntervalSeconds * 1000) {
+          this.requestJobPoll();
+        }
       });
     
     this.currentJobs.set(job.id, jobPromise);
-    this.logger.info(`🚀 Started processing job: ${job.id} (${this.currentJobs.size}/${this.config.maxConcurrentJobs})`);
+    this.currentJobTypes.set(job.id, job.job_type);
+    this.logger.info(`🚀 Started processing job: ${job.id} (${this.currentJobs.size - this.taskPoller.getWaitingJobCount()}/${this.concurrency.getLimit()} active, ${this.taskPoller.getWaitingJobCount()} waiting)`);
   }
   
-  private async executeJob(job: Job): Promise<void> {
+  private async executeJob(job: Job, controller: AbortController): Promise<void> {
     const startTime = Date.now();
+    const handler = this.jobHandlers.get(job.job_type);
+    let attempt: JobAttempt | null = null;
     
     try {
-      // Update job status to processing
+      // Count the attempt and update job status to processing
+      attempt = await this.retryScheduler.startAttempt(job.id, handler?.retryPolicy);
       await this.updateJobStatus(job.id, 'processing');
       
-      // Process the job based on type
-      switch (job.job_type) {
-        case 'tripadvisor_import':
-          await this.jobProcessor.processTripAdvisorImport(job.id, job.payload);
-          break;
-        default:
-          throw new Error(`Unsupported job type: ${job.job_type}`);
+      if (!handler) {
+        throw new PermanentJobError(`Unsupported job type: ${job.job_type}`);
       }
       
+      // Jobs created before their schema changed, or inserted without the API
+      const { payload, error: payloadError } = this.jobHandlers.validatePayload(job.job_type, job.payload);
+      if (payloadError) {
+        throw new PermanentJobError(payloadError);
+      }
+      
+      await this.runAttempt(job, handler, payload, controller);
+      
       // Mark job as completed
-      await this.updateJobStatus(job.id, 'completed', {
+      await this.queueBackend.complete(job.id, 'completed', {
         actual_duration_seconds: Math.round((Date.now() - startTime) / 1000)
       });
       
       // Record metrics
       await this.metricsCollector.recordJobCompletion(job.job_type, Date.now() - startTime);
       
+      // Enqueue the next steps of the job's workflow
+      try {
+        await this.jobChainer.enqueueFollowUps(job.id);
+      } catch (error) {
+        this.logger.error(`❌ Failed to enqueue follow-ups of job ${job.id}:`, error);
+      }
+      
       this.logger.info(`✅ Job ${job.id} completed successfully`);
       
     } catch (error) {
-      // Mark job as failed
-      await this.updateJobStatus(job.id, 'failed', {
-        error_message: error instanceof Error ? error.message : 'Unknown error',
-        error_details: { error: error instanceof Error ? error.stack : error }
-      });
+      if (error instanceof LeaseLostError) {
+        // The job_queue row belongs to whichever worker holds the claim now
+        this.logger.warn(`🛑 Job ${job.id} stopped after losing its claim`);
+        return;
+      }
+      
+      if (error instanceof JobReleasedError) {
+        // The drain releases the job once it has stopped
+        this.logger.info(`↩️ Job ${job.id} stopped for a drain`);
+        return;
+      }
+      
+      // A timed-out attempt fails like any other error below
+      if (error instanceof JobCancelledError && !(error instanceof JobTimeoutError)) {
+        await this.queueBackend.complete(job.id, 'cancelled', {
+          actual_duration_seconds: Math.round((Date.now() - startTime) / 1000)
+        });
+        this.logger.info(`🛑 Job ${job.id} cancelled`);
+        return;
+      }
+      
+      if (classifyError(error) === 'database') {
+        this.concurrency.recordDownstreamResult('supabase', false);
+      }
+      
+      // Schedule another attempt if the error is retryable, otherwise mark job as failed
+      await this.queueBackend.fail(job.id, attempt, error);
       
       // Record metrics
       await this.metricsCollector.recordJobFailure(job.job_type, error instanceof Error ? error.message : 'Unknown error');
@@ -290,6 +640,38 @@ export class WorkerManager {
     }
   }
   
+  /**
+   * Runs the handler until it settles or its timeout aborts the job. A handler stuck
+   * in a call that ignores the signal is abandoned rather than awaited, so the slot
+   * frees up; if the call ever returns, it stops at its next cancellation point.
+   */
+  private async runAttempt(job: Job, handler: JobHandler, payload: any, controller: AbortController): Promise<void> {
+    const timeoutSeconds = this.config.jobTypeTimeoutSeconds[job.job_type] ?? handler.timeoutSeconds;
+    let timeout: NodeJS.Timeout | undefined;
+    
+    const timedOut = new Promise<never>((_, reject) => {
+      timeout = setTimeout(() => {
+        this.logger.warn(`⏱️ Job ${job.id} exceeded its ${timeoutSeconds}s timeout, stopping it`);
+        const error = new JobTimeoutError(job.id, timeoutSeconds);
+        controller.abort(error);
+        reject(error);
+      }, timeoutSeconds * 1000);
+    });
+    
+    try {
+      await Promise.race([
+        handler.execute(job, payload, {
+          supabase: this.supabase,
+          taskPoller: this.taskPoller,
+          signal: controller.signal
+        }),
+        timedOut
+      ]);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+  
   private async updateJobStatus(jobId: string, status: string, additionalData: any = {}): Promise<void> {
     const updateData = {
       status,
@@ -298,21 +680,40 @@ export class WorkerManager {
     
     if (status === 'processing') {
       updateData.started_at = new Date().toISOString();
-    } else if (status === 'completed' || status === 'failed') {
+    } else if (status === 'completed' || status === 'failed' || status === 'cancelled') {
       updateData.completed_at = new Date().toISOString();
     }
     
-    const { error } = await this.supabase
+    let query = this.supabase
       .from('job_queue')
       .update(updateData)
       .eq('id', jobId);
     
+    if (status === 'processing') {
+      // Keep a cancellation requested while the job was being claimed
+      query = query.neq('status', 'cancelling');
+    }
+    
+    const { error } = await query;
+    
     if (error) {
       this.logger.error(`❌ Failed to update job ${jobId} status to ${status}:`, error);
     }
   }
   
   private startCleanupTasks(): void {
+    // Move scheduled jobs and retries whose run_at has passed to pending every 15 seconds
+    cron.schedule('*/15 * * * * *', async () => {
+      try {
+        const promoted = await this.queueBackend.promoteDueJobs();
+        if (promoted > 0) {
+          this.logger.info(`⏰ ${promoted} scheduled jobs are due`);
+        }
+      } catch (error) {
+        this.logger.error('⏰ Scheduled job promotion failed:', error);
+      }
+    });
+    
     // Release expired job claims every minute
     cron.schedule('* * * * *', async () => {
       try {
@@ -325,6 +726,15 @@ export class WorkerManager {
       }
     });
     
+    // Mark workers that stopped sending heartbeats offline and requeue their jobs every minute
+    cron.schedule('* * * * *', async () => {
+      try {
+        await this.workerReaper.reapStaleWorkers();
+      } catch (error) {
+        this.logger.error('💀 Stale worker reaping failed:', error);
+      }
+    });
+    
     // Clean up old metrics every hour
     cron.schedule('0 * * * *', async () => {
       try {
@@ -347,15 +757,41 @@ export class WorkerManager {
     });
   }
   
+  private getWorkerStatus(): WorkerStatus['status'] {
+    if (this.isDraining || this.commandedState === 'draining') {
+      return 'draining';
+    }
+    if (this.commandedState === 'paused') {
+      return 'paused';
+    }
+    return this.currentJobs.size > 0 ? 'busy' : 'idle';
+  }
+  
   public getStatus(): WorkerStatus {
     return {
       id: this.config.workerId,
       hostname: this.config.hostname,
-      status: this.currentJobs.size > 0 ? 'busy' : 'idle',
+      status: this.getWorkerStatus(),
+      commanded_state: this.commandedState,
+      supported_job_types: this.getSupportedJobTypes(),
+      paused_job_types: this.pausedJobTypes,
       current_job_count: this.currentJobs.size,
+      waiting_job_count: this.taskPoller.getWaitingJobCount(),
       max_concurrent_jobs: this.config.maxConcurrentJobs,
+      concurrency_limit: this.concurrency.getLimit(),
       last_heartbeat: new Date().toISOString()
     };
   }
+  
+  private recordConcurrencyChange(change: ConcurrencyChange): void {
+    this.metricsCollector.recordGauge('worker_concurrency_limit', change.limit, 'count', {
+      previous_limit: change.previousLimit,
+      reasons: change.reasons,
+      heap_usage: Math.round(change.signals.heapUsage * 100) / 100,
+      event_loop_delay_ms: change.signals.eventLoopDelayMs,
+      dataforseo_error_rate: change.signals.errorRates.dataforseo,
+      supabase_error_rate: change.signals.errorRates.supabase
+    }).catch(error => this.logger.warn('⚠️ Failed to record concurrency change:', error));
+  }
 }
 
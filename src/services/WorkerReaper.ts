@@ -0,0 +1,185 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Config } from '../config/Config';
+import { Logger } from '../utils/Logger';
+import { JobRetryScheduler } from './JobRetryScheduler';
+
+// Held jobs that go back to pending; cancelling ones are cancelled instead
+const CLAIMED_JOB_STATUSES = ['claimed', 'processing'];
+
+// Rows of offline workers are kept this long for inspection before they are deleted
+const OFFLINE_WORKER_RETENTION_DAYS = 7;
+
+/**
+ * Cleans up after workers that stopped without draining. A worker whose
+ * last_heartbeat is older than workerStaleHeartbeats intervals is marked offline
+ * and the jobs it held go back to pending right away instead of waiting for their
+ * claims to expire. Every worker runs the reaper; marking a worker offline is a
+ * conditional update, so only one of them requeues its jobs.
+ */
+export class WorkerReaper {
+  private config = Config.getInstance();
+  private logger = Logger.getInstance();
+  private retryScheduler: JobRetryScheduler;
+
+  constructor(private supabase: SupabaseClient) {
+    this.retryScheduler = new JobRetryScheduler(supabase);
+  }
+
+  /** Returns the ids of the workers marked offline. */
+  public async reapStaleWorkers(): Promise<string[]> {
+    const cutoff = new Date(
+      Date.now() - this.config.workerStaleHeartbeats * this.config.heartbeatIntervalSeconds * 1000
+    ).toISOString();
+
+    const { data: staleWorkers, error } = await this.supabase
+      .from('workers')
+      .select('id')
+      .neq('status', 'offline')
+      .neq('id', this.config.workerId)
+      .lt('last_heartbeat', cutoff);
+
+    if (error) {
+      throw new Error(`Failed to load stale workers: ${error.message}`);
+    }
+
+    const reaped: string[] = [];
+    for (const worker of staleWorkers || []) {
+      const { data: updated, error: updateError } = await this.supabase
+        .from('workers')
+        .update({ status: 'offline', current_job_count: 0 })
+        .eq('id', worker.id)
+        .neq('status', 'offline')
+        .lt('last_heartbeat', cutoff)
+        .select('id');
+
+      if (updateError) {
+        this.logger.error(`❌ Failed to mark worker ${worker.id} offline:`, updateError);
+        continue;
+      }
+
+      // Another worker reaped it first, or it came back
+      if (!updated || updated.length === 0) {
+        continue;
+      }
+
+      const requeued = await this.requeueJobsOf(worker.id);
+      reaped.push(worker.id);
+      this.logger.warn(`💀 Worker ${worker.id} stopped sending heartbeats, requeued ${requeued.length} jobs`);
+    }
+
+    await this.deleteOldOfflineWorkers();
+    return reaped;
+  }
+
+  /**
+   * Puts the jobs claimed under a worker id back to pending. Also run at startup,
+   * since a worker with a stable id may restart before its old claims expire.
+   * The interrupted attempt still counts and is recorded as a crash; a job that
+   * has now crashed on too many workers, or used its last attempt, is quarantined
+   * instead. Returns the requeued job ids.
+   */
+  public async requeueJobsOf(workerId: string): Promise<string[]> {
+    await this.recordCrashes(workerId);
+
+    const { data: requeued, error } = await this.supabase
+      .from('job_queue')
+      .update({
+        status: 'pending',
+        worker_id: null,
+        claimed_at: null,
+        claim_expires_at: null,
+        started_at: null
+      })
+      .eq('worker_id', workerId)
+      .in('status', CLAIMED_JOB_STATUSES)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to requeue jobs of worker ${workerId}: ${error.message}`);
+    }
+
+    await this.cancelJobsOf(workerId);
+
+    return (requeued || []).map(job => job.id);
+  }
+
+  // Nobody is left to stop jobs whose cancellation was pending, so finish it as the worker would have
+  private async cancelJobsOf(workerId: string): Promise<void> {
+    const { data: cancelled, error } = await this.supabase
+      .from('job_queue')
+      .update({
+        status: 'cancelled',
+        completed_at: new Date().toISOString()
+      })
+      .eq('worker_id', workerId)
+      .eq('status', 'cancelling')
+      .select('id');
+
+    if (error) {
+      this.logger.warn(`⚠️ Failed to cancel jobs of worker ${workerId}:`, error);
+      return;
+    }
+
+    if (!cancelled || cancelled.length === 0) {
+      return;
+    }
+
+    const { error: syncJobError } = await this.supabase
+      .from('review_sync_jobs')
+      .update({
+        status: 'cancelled',
+        processing_stage: 'cancelled',
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .in('queue_job_id', cancelled.map(job => job.id));
+
+    if (syncJobError) {
+      this.logger.warn(`⚠️ Failed to cancel the sync jobs of worker ${workerId}:`, syncJobError);
+    }
+  }
+
+  // Jobs still claimed but never started didn't run, so only processing ones crashed
+  private async recordCrashes(workerId: string): Promise<void> {
+    const { data: jobs, error } = await this.supabase
+      .from('job_queue')
+      .select('id, attempts, max_attempts, started_at')
+      .eq('worker_id', workerId)
+      .eq('status', 'processing');
+
+    if (error) {
+      this.logger.warn(`⚠️ Failed to load jobs of worker ${workerId} for crash tracking:`, error);
+      return;
+    }
+
+    for (const job of jobs || []) {
+      const poison = await this.retryScheduler.recordCrash(job, workerId);
+      if (!poison) {
+        continue;
+      }
+
+      try {
+        await this.retryScheduler.quarantine(job.id, poison);
+        this.logger.warn(`🧪 ${poison.message}, quarantined it`);
+      } catch (quarantineError) {
+        // It goes back to pending with the rest and is checked again on its next crash
+        this.logger.error(`❌ Failed to quarantine job ${job.id}:`, quarantineError);
+      }
+    }
+  }
+
+  private async deleteOldOfflineWorkers(): Promise<void> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - OFFLINE_WORKER_RETENTION_DAYS);
+
+    const { error } = await this.supabase
+      .from('workers')
+      .delete()
+      .eq('status', 'offline')
+      .lt('last_heartbeat', cutoff.toISOString());
+
+    if (error) {
+      this.logger.warn('⚠️ Failed to delete old offline workers:', error);
+    }
+  }
+}
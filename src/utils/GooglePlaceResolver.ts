@@ -0,0 +1,89 @@
+export interface GooglePlaceTarget {
+  placeId?: string;
+  cid?: string;
+  sourceUrl?: string;
+}
+
+export interface GooglePlaceInput {
+  place_id?: string;
+  cid?: string;
+  url?: string;
+}
+
+export class GooglePlaceResolver {
+  /**
+   * Resolve a Google place from an explicit place_id, a CID or a Google Maps URL.
+   * Returns null when nothing usable can be extracted.
+   */
+  public static resolve(input: GooglePlaceInput): GooglePlaceTarget | null {
+    if (input.place_id) {
+      return GooglePlaceResolver.isPlaceId(input.place_id)
+        ? { placeId: input.place_id, ...(input.url ? { sourceUrl: input.url } : {}) }
+        : null;
+    }
+
+    if (input.cid) {
+      return /^\d+$/.test(String(input.cid))
+        ? { cid: String(input.cid), ...(input.url ? { sourceUrl: input.url } : {}) }
+        : null;
+    }
+
+    if (input.url) {
+      return GooglePlaceResolver.fromMapsUrl(input.url);
+    }
+
+    return null;
+  }
+
+  public static fromMapsUrl(url: string): GooglePlaceTarget | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+
+    const isGoogleHost = /(^|\.)google\.[a-z.]+$/.test(parsed.hostname) || parsed.hostname === 'maps.app.goo.gl';
+    if (!isGoogleHost) {
+      return null;
+    }
+
+    // ?cid=1234567890
+    const cidParam = parsed.searchParams.get('cid');
+    if (cidParam && /^\d+$/.test(cidParam)) {
+      return { cid: cidParam, sourceUrl: url };
+    }
+
+    // ?query_place_id=ChIJ... or ?q=place_id:ChIJ...
+    const queryPlaceId = parsed.searchParams.get('query_place_id');
+    if (queryPlaceId && GooglePlaceResolver.isPlaceId(queryPlaceId)) {
+      return { placeId: queryPlaceId, sourceUrl: url };
+    }
+
+    const placeIdMatch = GooglePlaceResolver.decode(url)?.match(/place_id:([A-Za-z0-9_-]+)/);
+    if (placeIdMatch && GooglePlaceResolver.isPlaceId(placeIdMatch[1])) {
+      return { placeId: placeIdMatch[1], sourceUrl: url };
+    }
+
+    // /maps/place/.../data=!4m...!1s0x80c8c4:0x1a2b3c4d... (second hex is the CID)
+    const featureMatch = url.match(/!1s0x[0-9a-f]+:0x([0-9a-f]+)/i);
+    if (featureMatch) {
+      return { cid: BigInt(`0x${featureMatch[1]}`).toString(), sourceUrl: url };
+    }
+
+    return null;
+  }
+
+  // Null when the URL holds a malformed percent-escape
+  private static decode(value: string): string | null {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return null;
+    }
+  }
+
+  private static isPlaceId(value: string): boolean {
+    return /^[A-Za-z0-9_-]{10,}$/.test(value);
+  }
+}
@@ -0,0 +1,181 @@
+/** Thrown out of a job once its cancellation has been requested through the API. */
+export class JobCancelledError extends Error {
+  constructor(public readonly jobId: string, message: string = `Job ${jobId} was cancelled`) {
+    super(message);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Thrown out of a job whose claim could not be renewed. The job may already belong
+ * to another worker, so the worker stops without writing its status.
+ */
+export class LeaseLostError extends JobCancelledError {
+  constructor(jobId: string) {
+    super(jobId, `Lost the claim on job ${jobId}`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+/** Thrown out of a job a shutting-down worker hands back to the queue unfinished. */
+export class JobReleasedError extends JobCancelledError {
+  constructor(jobId: string) {
+    super(jobId, `Job ${jobId} was released by a draining worker`);
+    this.name = 'JobReleasedError';
+  }
+}
+
+/** Thrown out of a job that ran past its handler's timeout. Unlike a cancellation, the attempt fails and may be retried. */
+export class JobTimeoutError extends JobCancelledError {
+  constructor(jobId: string, timeoutSeconds: number) {
+    super(jobId, `Job ${jobId} timed out after ${timeoutSeconds}s`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+/** The error a job stops with once its signal is aborted: the abort reason, or a plain cancellation. */
+export function getCancellationError(signal: AbortSignal | undefined, jobId: string): JobCancelledError {
+  return signal?.reason instanceof JobCancelledError ? signal.reason : new JobCancelledError(jobId);
+}
+
+export function throwIfCancelled(signal: AbortSignal | undefined, jobId: string): void {
+  if (signal?.aborted) {
+    throw getCancellationError(signal, jobId);
+  }
+}
+
+/** A failure retrying can't fix, such as an invalid payload. The job fails on its first attempt. */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+/**
+ * Set on a job quarantined after crashing or timing out on too many different workers,
+ * or after crashing its worker on its last attempt.
+ */
+export class PoisonJobError extends Error {
+  constructor(
+    public readonly jobId: string,
+    public readonly workerIds: string[],
+    message = `Job ${jobId} crashed or timed out on ${workerIds.length} workers: ${workerIds.join(', ')}`
+  ) {
+    super(message);
+    this.name = 'PoisonJobError';
+  }
+}
+
+/**
+ * Thrown by enqueue when job_queue refuses a job as a duplicate: its
+ * idempotency_key was used before by the same operator, or its dedupe_key
+ * belongs to a job that is still queued or running.
+ */
+export class DuplicateJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DuplicateJobError';
+  }
+}
+
+/** A DataForSEO task that finished with an error status instead of results. */
+export class TaskFailedError extends Error {
+  constructor(public readonly taskId: string, public readonly statusCode: number, statusMessage: string) {
+    super(`DataForSEO task failed: ${statusCode} - ${statusMessage}`);
+    this.name = 'TaskFailedError';
+  }
+}
+
+/**
+ * Whether another attempt could succeed. DataForSEO 5xx/429 responses, 50xxx task
+ * errors, network failures and timeouts are retryable; invalid payloads and other
+ * 4xx responses are not. Unrecognized errors are retried up to max_attempts.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof JobTimeoutError) {
+    return true;
+  }
+
+  if (error instanceof JobCancelledError || error instanceof PermanentJobError || error instanceof PoisonJobError) {
+    return false;
+  }
+
+  if (error instanceof TaskFailedError) {
+    return error.statusCode >= 50000;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  const apiStatus = message.match(/DataForSEO API Error: (\d{3})/);
+  if (apiStatus) {
+    const status = parseInt(apiStatus[1], 10);
+    return status >= 500 || status === 429;
+  }
+
+  return true;
+}
+
+export type JobErrorClass =
+  | 'invalid_payload'
+  | 'dataforseo_task'
+  | 'dataforseo_api'
+  | 'network'
+  | 'timeout'
+  | 'database'
+  | 'poison'
+  | 'unknown';
+
+export const JOB_ERROR_CLASSES: JobErrorClass[] = [
+  'invalid_payload',
+  'dataforseo_task',
+  'dataforseo_api',
+  'network',
+  'timeout',
+  'database',
+  'poison',
+  'unknown'
+];
+
+/** Coarse error class used to group dead-lettered jobs. */
+export function classifyError(error: unknown): JobErrorClass {
+  if (error instanceof PoisonJobError) {
+    return 'poison';
+  }
+
+  if (error instanceof PermanentJobError) {
+    return 'invalid_payload';
+  }
+
+  if (error instanceof TaskFailedError) {
+    return 'dataforseo_task';
+  }
+
+  return classifyErrorMessage(error instanceof Error ? error.message : String(error));
+}
+
+/** Message-only classification, for failures recorded before errors carried a class. */
+export function classifyErrorMessage(message: string | null | undefined): JobErrorClass {
+  const text = (message || '').toLowerCase();
+
+  if (text.includes('is required') || text.includes('must be') || text.includes('invalid') || text.includes('unsupported job type')) {
+    return 'invalid_payload';
+  }
+  if (text.includes('dataforseo task failed')) {
+    return 'dataforseo_task';
+  }
+  if (text.includes('dataforseo api error')) {
+    return 'dataforseo_api';
+  }
+  if (text.includes('timed out') || text.includes('timeout')) {
+    return 'timeout';
+  }
+  if (text.includes('request failed') || text.includes('network') || text.includes('econnreset') || text.includes('enotfound')) {
+    return 'network';
+  }
+  if (text.startsWith('failed to') || text.includes('claim')) {
+    return 'database';
+  }
+
+  return 'unknown';
+}
@@ -0,0 +1,41 @@
+export interface TrustpilotTarget {
+  domain: string;
+  sourceUrl: string;
+}
+
+export class TrustpilotDomainResolver {
+  /**
+   * Resolve a Trustpilot business from a review page URL
+   * (https://www.trustpilot.com/review/example.com) or a bare domain.
+   * Returns null when no business domain can be extracted.
+   */
+  public static resolve(input: string): TrustpilotTarget | null {
+    const value = input.trim();
+
+    if (value.includes('trustpilot.com')) {
+      const match = value.match(/trustpilot\.com\/review\/([^\/?#]+)/i);
+      if (!match) {
+        return null;
+      }
+      let domain: string;
+      try {
+        domain = decodeURIComponent(match[1]).toLowerCase();
+      } catch {
+        // Malformed percent-escape
+        return null;
+      }
+      return TrustpilotDomainResolver.isDomain(domain) ? { domain, sourceUrl: value } : null;
+    }
+
+    const domain = value.replace(/^https?:\/\//i, '').replace(/\/.*$/, '').toLowerCase();
+    if (!TrustpilotDomainResolver.isDomain(domain)) {
+      return null;
+    }
+
+    return { domain, sourceUrl: `https://www.trustpilot.com/review/${domain}` };
+  }
+
+  private static isDomain(value: string): boolean {
+    return /^([a-z0-9-]+\.)+[a-z]{2,}$/.test(value);
+  }
+}
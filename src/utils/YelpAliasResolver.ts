@@ -0,0 +1,40 @@
+export interface YelpTarget {
+  alias: string;
+  sourceUrl: string;
+}
+
+export class YelpAliasResolver {
+  /**
+   * Resolve a Yelp business from a business page URL
+   * (https://www.yelp.com/biz/some-business-las-vegas) or a bare alias.
+   * Returns null when no alias can be extracted.
+   */
+  public static resolve(input: string): YelpTarget | null {
+    const value = input.trim();
+
+    if (value.includes('yelp.')) {
+      const match = value.match(/yelp\.[a-z.]+\/biz\/([^\/?#]+)/i);
+      if (!match) {
+        return null;
+      }
+      let alias: string;
+      try {
+        alias = decodeURIComponent(match[1]);
+      } catch {
+        // Malformed percent-escape
+        return null;
+      }
+      return YelpAliasResolver.isAlias(alias) ? { alias, sourceUrl: value } : null;
+    }
+
+    if (!YelpAliasResolver.isAlias(value)) {
+      return null;
+    }
+
+    return { alias: value, sourceUrl: `https://www.yelp.com/biz/${value}` };
+  }
+
+  private static isAlias(value: string): boolean {
+    return /^[\p{L}\p{N}]+(-[\p{L}\p{N}]+)+$/u.test(value);
+  }
+}
@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import { AuthMiddleware } from '../../src/api/AuthMiddleware';
+import { createSupabaseStub } from '../supabaseStub';
+
+const request = (authorization?: string) => {
+  const headers: Record<string, string | undefined> = { Authorization: authorization };
+  return { get: (name: string) => headers[name] } as unknown as Request;
+};
+
+const response = () => {
+  const res = {
+    status: jest.fn(),
+    json: jest.fn()
+  };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  return res;
+};
+
+function createMiddleware() {
+  const { client, auth } = createSupabaseStub();
+  return { auth, middleware: new AuthMiddleware(client) };
+}
+
+describe('AuthMiddleware', () => {
+  describe('requireUser', () => {
+    it('rejects requests without a bearer token', async () => {
+      const { middleware, auth } = createMiddleware();
+      const res = response();
+      const next = jest.fn();
+
+      await middleware.requireUser(request(), res as unknown as Response, next);
+      await middleware.requireUser(request('Basic abc'), res as unknown as Response, next);
+
+      expect(res.status).toHaveBeenNthCalledWith(1, 401);
+      expect(res.status).toHaveBeenNthCalledWith(2, 401);
+      expect(auth.getUser).not.toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('sets the operator from a valid access token', async () => {
+      const { middleware, auth } = createMiddleware();
+      auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1', app_metadata: {} } }, error: null });
+      const req = request('Bearer user-token');
+      const next = jest.fn();
+
+      await middleware.requireUser(req, response() as unknown as Response, next);
+
+      expect(auth.getUser).toHaveBeenCalledWith('user-token');
+      expect(req.auth).toEqual({ userId: 'user-1', isAdmin: false });
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('treats users with the admin role in app_metadata as admins', async () => {
+      const { middleware, auth } = createMiddleware();
+      auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1', app_metadata: { role: 'admin' } } }, error: null });
+      const req = request('Bearer user-token');
+
+      await middleware.requireUser(req, response() as unknown as Response, jest.fn());
+
+      expect(req.auth).toEqual({ userId: 'user-1', isAdmin: true });
+    });
+
+    it('ignores an admin role in the user-editable user_metadata', async () => {
+      const { middleware, auth } = createMiddleware();
+      auth.getUser.mockResolvedValue({
+        data: { user: { id: 'user-1', app_metadata: {}, user_metadata: { role: 'admin' } } },
+        error: null
+      });
+      const req = request('Bearer user-token');
+
+      await middleware.requireUser(req, response() as unknown as Response, jest.fn());
+
+      expect(req.auth).toEqual({ userId: 'user-1', isAdmin: false });
+    });
+
+    it('accepts the service role key as an admin acting for no operator', async () => {
+      const { middleware, auth } = createMiddleware();
+      const req = request(`Bearer ${process.env.SUPABASE_SERVICE_ROLE_KEY}`);
+      const next = jest.fn();
+
+      await middleware.requireUser(req, response() as unknown as Response, next);
+
+      expect(auth.getUser).not.toHaveBeenCalled();
+      expect(req.auth).toEqual({ userId: null, isAdmin: true });
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('rejects invalid or expired tokens', async () => {
+      const { middleware, auth } = createMiddleware();
+      auth.getUser.mockResolvedValue({ data: { user: null }, error: { message: 'invalid JWT' } });
+      const res = response();
+      const next = jest.fn();
+
+      await middleware.requireUser(request('Bearer expired-token'), res as unknown as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('answers 503 when the token can\'t be verified', async () => {
+      const { middleware, auth } = createMiddleware();
+      auth.getUser.mockRejectedValue(new Error('fetch failed'));
+      const res = response();
+      const next = jest.fn();
+
+      await middleware.requireUser(request('Bearer user-token'), res as unknown as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(503);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireAdmin', () => {
+    it('rejects operators without the admin role', async () => {
+      const { middleware, auth } = createMiddleware();
+      auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1', app_metadata: {} } }, error: null });
+      const res = response();
+      const next = jest.fn();
+
+      await middleware.requireAdmin(request('Bearer user-token'), res as unknown as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('lets admins through', async () => {
+      const { middleware, auth } = createMiddleware();
+      auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1', app_metadata: { role: 'admin' } } }, error: null });
+      const next = jest.fn();
+
+      await middleware.requireAdmin(request('Bearer user-token'), response() as unknown as Response, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { Request, Response } from 'express';
+import { AuthContext } from '../../src/api/AuthMiddleware';
+import { JobAPI } from '../../src/api/JobAPI';
+import { createSupabaseStub } from '../supabaseStub';
+
+const request = (auth: AuthContext) => ({ auth } as unknown as Request);
+
+const response = () => {
+  const res = {
+    status: jest.fn(),
+    json: jest.fn()
+  };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  return res;
+};
+
+describe('JobAPI', () => {
+  const api = new JobAPI(createSupabaseStub().client);
+  const user: AuthContext = { userId: 'user-1', isAdmin: false };
+  const admin: AuthContext = { userId: 'admin-1', isAdmin: true };
+  const serviceRole: AuthContext = { userId: null, isAdmin: true };
+
+  describe('resolveUserId', () => {
+    const resolveUserId = (auth: AuthContext, requested: unknown) => {
+      const res = response();
+      return { res, actor: api['resolveUserId'](request(auth), res as unknown as Response, requested) };
+    };
+
+    it('acts for the authenticated user when none is named', () => {
+      expect(resolveUserId(user, undefined).actor).toEqual({ userId: 'user-1' });
+    });
+
+    it('lets a user name themselves', () => {
+      expect(resolveUserId(user, 'user-1').actor).toEqual({ userId: 'user-1' });
+    });
+
+    it('refuses a user naming another operator', () => {
+      const { actor, res } = resolveUserId(user, 'user-2');
+
+      expect(actor).toBeNull();
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('lets admins act for the operator they name', () => {
+      expect(resolveUserId(admin, 'user-2').actor).toEqual({ userId: 'user-2' });
+      expect(resolveUserId(admin, undefined).actor).toEqual({ userId: 'admin-1' });
+    });
+
+    it('leaves the operator unset for the service role naming none', () => {
+      expect(resolveUserId(serviceRole, '').actor).toEqual({ userId: null });
+      expect(resolveUserId(serviceRole, 'user-2').actor).toEqual({ userId: 'user-2' });
+    });
+
+    it('ignores a user_id that isn\'t a string', () => {
+      expect(resolveUserId(user, ['user-2']).actor).toEqual({ userId: 'user-1' });
+    });
+  });
+
+  describe('canAccessUser', () => {
+    it('limits users to their own jobs', () => {
+      expect(api['canAccessUser'](request(user), 'user-1')).toBe(true);
+      expect(api['canAccessUser'](request(user), 'user-2')).toBe(false);
+      expect(api['canAccessUser'](request(user), null)).toBe(false);
+    });
+
+    it('lets admins see every operator', () => {
+      expect(api['canAccessUser'](request(admin), 'user-2')).toBe(true);
+      expect(api['canAccessUser'](request(serviceRole), 'user-2')).toBe(true);
+    });
+  });
+
+  describe('getDedupeKey', () => {
+    const getDedupeKey = (payload: unknown) => api['getDedupeKey']('user-1', 'tripadvisor_import', payload);
+
+    it('keys active imports by operator and listing', () => {
+      expect(getDedupeKey({ url: 'https://www.tripadvisor.com/Attraction_Review-g45963-d1234567-Reviews-Canyon_Tours.html' }))
+        .toBe('user-1:tripadvisor_import:Attraction_Review-g45963-d1234567-Reviews-Canyon_Tours');
+    });
+
+    it('has no key for URLs that name no listing', () => {
+      expect(getDedupeKey({ url: 'https://www.tripadvisor.com/Attractions-g45963-Activities-Las_Vegas' })).toBeNull();
+      expect(getDedupeKey({ url: 'https://example.com/reviews' })).toBeNull();
+    });
+  });
+});
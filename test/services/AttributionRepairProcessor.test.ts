@@ -0,0 +1,79 @@
+import { AttributionRepairProcessor } from '../../src/services/AttributionRepairProcessor';
+import { createSupabaseStub, filterValue, RecordedQuery } from '../supabaseStub';
+
+const LISTING_URL = 'https://www.tripadvisor.com/Attraction_Review-g45963-d1234567-Reviews-Canyon_Tours.html';
+
+const syncJob = (id: string, platform: string, sourceUrl: string) => ({
+  id,
+  platform,
+  tour_operator_id: 'user-1',
+  source_url: sourceUrl,
+  source_business_id: null,
+  source_business_name: 'Canyon Tours'
+});
+
+const storedReview = (id: string, locationId: string) => ({
+  id,
+  raw_data: { review_url: `https://www.tripadvisor.com/ShowUserReviews-g45963-${locationId}-r${id}-Canyon_Tours.html` }
+});
+
+// The operator's sync jobs, and the rows the review scan returns until they are moved
+function createRepair(syncJobs: ReturnType<typeof syncJob>[], scannedRows: ReturnType<typeof storedReview>[] = []) {
+  const movedIds = new Set<string>();
+
+  const stub = createSupabaseStub((query: RecordedQuery) => {
+    if (query.table === 'review_sync_jobs') {
+      return { data: syncJobs };
+    }
+    if (query.table === 'tripadvisor_reviews' && query.operation === 'select') {
+      return { data: scannedRows.filter(row => !movedIds.has(row.id)) };
+    }
+    if (query.table === 'tripadvisor_reviews' && query.operation === 'update') {
+      filterValue(query, 'in', 'id').forEach((id: string) => movedIds.add(id));
+    }
+    return undefined;
+  });
+
+  return { ...stub, repair: new AttributionRepairProcessor(stub.client) };
+}
+
+const repairSummary = (queries: RecordedQuery[]) =>
+  queries.find(query => query.table === 'job_queue' && query.operation === 'update')?.values.result;
+
+describe('AttributionRepairProcessor', () => {
+  it('moves the listing\'s reviews from the legacy operator to the sync job\'s operator', async () => {
+    const { repair, queries } = createRepair(
+      [syncJob('sync-1', 'tripadvisor', LISTING_URL)],
+      [storedReview('1', 'd1234567'), storedReview('2', 'd7654321')]
+    );
+
+    await repair.process('job-1', { user_id: 'user-1' });
+
+    const move = queries.find(query => query.table === 'tripadvisor_reviews' && query.operation === 'update');
+    expect(move?.values).toEqual({ tour_operator_id: 'user-1', place_name: 'Canyon Tours', source_url: LISTING_URL });
+    expect(filterValue(move!, 'in', 'id')).toEqual(['1']);
+    expect(repairSummary(queries)).toMatchObject({ sync_jobs_checked: 1, reviews_reattributed: 1 });
+  });
+
+  it('only scans rows still under the legacy operator and business name', async () => {
+    const { repair, queries } = createRepair([syncJob('sync-1', 'tripadvisor', LISTING_URL)]);
+
+    await repair.process('job-1', { user_id: 'user-1' });
+
+    const scan = queries.find(query => query.table === 'tripadvisor_reviews' && query.operation === 'select');
+    expect(filterValue(scan!, 'eq', 'tour_operator_id')).toBe('55e41290-65af-4e0e-8d4f-6c058f5e0a0f');
+    expect(filterValue(scan!, 'eq', 'place_name')).toBe('Vegas Jeep Tours');
+    expect(scan!.filters.some(filter => filter.method === 'neq')).toBe(false);
+  });
+
+  it('skips listings whose provider can\'t tell its raw items apart', async () => {
+    const { repair, queries } = createRepair([
+      syncJob('sync-1', 'google', 'https://www.google.com/maps/place/?q=place_id:ChIJN1t_tDeuEmsRUsoyG83frY4')
+    ]);
+
+    await repair.process('job-1', { user_id: 'user-1' });
+
+    expect(queries.some(query => query.table === 'tripadvisor_reviews')).toBe(false);
+    expect(repairSummary(queries)).toMatchObject({ sync_jobs_checked: 0, skipped_sync_jobs: ['sync-1'] });
+  });
+});
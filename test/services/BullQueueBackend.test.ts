@@ -0,0 +1,320 @@
+import { Config } from '../../src/config/Config';
+import { BullQueueBackend } from '../../src/services/BullQueueBackend';
+import { createSupabaseStub, filterValue, RecordedQuery } from '../supabaseStub';
+
+// In-memory stand-in for a Bull queue: jobs wait in insertion order and pushing an id twice is a no-op
+class MockBullJob {
+  public state = 'waiting';
+  public removed = false;
+
+  constructor(public id: string, public data: any, public opts: any, private queue: MockBullQueue) {}
+
+  async getState() {
+    return this.state;
+  }
+
+  async remove() {
+    this.removed = true;
+    this.queue.jobs.delete(this.id);
+  }
+
+  async moveToCompleted() {
+    await this.remove();
+  }
+
+  async extendLock() {
+    return undefined;
+  }
+}
+
+class MockBullQueue {
+  public jobs = new Map<string, MockBullJob>();
+  public popped = 0;
+
+  constructor(public name: string) {}
+
+  async add(data: any, opts: any) {
+    if (!this.jobs.has(opts.jobId)) {
+      this.jobs.set(opts.jobId, new MockBullJob(opts.jobId, data, opts, this));
+    }
+    return this.jobs.get(opts.jobId);
+  }
+
+  async getWaitingCount() {
+    return this.waiting().length;
+  }
+
+  async getNextJob() {
+    this.popped++;
+    const job = this.waiting()[0];
+    if (job) {
+      job.state = 'active';
+    }
+    return job;
+  }
+
+  async getJob(id: string) {
+    return this.jobs.get(id) || null;
+  }
+
+  async close() {
+    return undefined;
+  }
+
+  waiting() {
+    return Array.from(this.jobs.values()).filter(job => job.state === 'waiting');
+  }
+}
+
+const mockBullQueues = new Map<string, MockBullQueue>();
+
+jest.mock('bull', () => function createQueue(name: string) {
+  const queue = new MockBullQueue(name);
+  mockBullQueues.set(name, queue);
+  return queue;
+});
+
+// The keys the workers share in Redis, holding the pending sync lease
+const mockRedisKeys = new Map<string, string>();
+
+jest.mock('ioredis', () => function createRedis() {
+  return {
+    async set(key: string, value: string) {
+      if (mockRedisKeys.has(key)) {
+        return null;
+      }
+      mockRedisKeys.set(key, value);
+      return 'OK';
+    },
+    async eval(_script: string, _keys: number, key: string, value: string) {
+      return mockRedisKeys.get(key) === value ? 1 : 0;
+    },
+    async quit() {
+      return 'OK';
+    }
+  };
+});
+
+interface QueueRow {
+  id: string;
+  user_id: string;
+  job_type: string;
+  payload: any;
+  priority: number;
+  status: string;
+}
+
+const row = (id: string, userId: string, overrides: Partial<QueueRow> = {}): QueueRow => ({
+  id,
+  user_id: userId,
+  job_type: 'tripadvisor_import',
+  payload: { user_id: userId },
+  priority: 2,
+  status: 'pending',
+  ...overrides
+});
+
+// job_queue holding rows, with activeUserIds the operators of jobs already running
+function createBackend(rows: QueueRow[] = [], activeUserIds: string[] = []) {
+  const byId = new Map(rows.map(entry => [entry.id, entry]));
+
+  const stub = createSupabaseStub((query: RecordedQuery) => {
+    if (query.table !== 'job_queue') {
+      return undefined;
+    }
+    if (query.operation === 'insert') {
+      return { data: query.values.map((job: any, index: number) => ({ id: `job-${index + 1}`, status: 'pending', ...job })) };
+    }
+    if (query.operation === 'update') {
+      const ids: string[] = filterValue(query, 'in', 'id') || [];
+      const claimed = ids.map(id => byId.get(id)).filter(entry => entry?.status === 'pending') as QueueRow[];
+      claimed.forEach(entry => entry.status = 'claimed');
+      return { data: claimed.map(({ status, ...job }) => job) };
+    }
+    if (query.columns === 'user_id') {
+      return { data: activeUserIds.map(userId => ({ user_id: userId })) };
+    }
+    const matching = rows.filter(entry => entry.status === filterValue(query, 'eq', 'status'));
+    const range = query.filters.find(filter => filter.method === 'range');
+    return { data: range ? matching.slice(range.args[0], range.args[1] + 1) : matching };
+  });
+
+  return { ...stub, byId, backend: new BullQueueBackend(stub.client) };
+}
+
+const queueOf = (jobType: string) => mockBullQueues.get(`jobs:${jobType}`)!;
+
+async function pushAll(backend: BullQueueBackend, rows: QueueRow[]) {
+  for (const entry of rows) {
+    await backend['push'](entry);
+  }
+}
+
+describe('BullQueueBackend', () => {
+  const config = Config.getInstance();
+  const { maxJobsPerTenant, workerId } = config;
+
+  beforeEach(() => {
+    mockBullQueues.clear();
+    mockRedisKeys.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    config.maxJobsPerTenant = maxJobsPerTenant;
+    config.workerId = workerId;
+  });
+
+  describe('enqueue', () => {
+    it('pushes pending jobs to the Bull queue of their type under their job_queue id', async () => {
+      const { backend, queries } = createBackend();
+
+      const created = await backend.enqueue([
+        { user_id: 'user-1', job_type: 'tripadvisor_import', payload: {}, priority: 1, status: 'pending' },
+        { user_id: 'user-1', job_type: 'attribution_repair', payload: {}, priority: 2, status: 'scheduled', run_at: '2030-01-01T00:00:00Z' }
+      ]);
+
+      expect(created.map(job => job.id)).toEqual(['job-1', 'job-2']);
+      expect(queries[0].operation).toBe('insert');
+      const [pushed] = queueOf('tripadvisor_import').waiting();
+      expect(pushed).toMatchObject({ id: 'job-1', data: { job_id: 'job-1', user_id: 'user-1' }, opts: { jobId: 'job-1', priority: 1 } });
+      expect(mockBullQueues.has('jobs:attribution_repair')).toBe(false);
+    });
+  });
+
+  describe('claim', () => {
+    it('claims popped jobs in job_queue before handing them out', async () => {
+      const rows = [row('job-1', 'user-1'), row('job-2', 'user-2', { job_type: 'google_reviews_import' })];
+      const { backend, byId } = createBackend(rows);
+      await pushAll(backend, rows);
+
+      const claimed = await backend.claim(5, ['tripadvisor_import', 'google_reviews_import']);
+
+      expect(claimed.map(job => job.id)).toEqual(['job-1', 'job-2']);
+      expect(claimed[0]).toEqual({ id: 'job-1', user_id: 'user-1', job_type: 'tripadvisor_import', payload: { user_id: 'user-1' }, priority: 2 });
+      expect(byId.get('job-1')!.status).toBe('claimed');
+    });
+
+    it('drops popped jobs that are no longer pending', async () => {
+      const rows = [row('job-1', 'user-1', { status: 'cancelled' }), row('job-2', 'user-1')];
+      const { backend } = createBackend(rows);
+      await pushAll(backend, rows);
+
+      const claimed = await backend.claim(5, ['tripadvisor_import']);
+
+      expect(claimed.map(job => job.id)).toEqual(['job-2']);
+      expect(queueOf('tripadvisor_import').jobs.has('job-1')).toBe(false);
+    });
+
+    it('claims without loading the job first', async () => {
+      const rows = [row('job-1', 'user-1')];
+      const { backend, queries } = createBackend(rows);
+      await pushAll(backend, rows);
+
+      await backend.claim(1, ['tripadvisor_import']);
+
+      const lookups = queries.filter(query => query.operation === 'select' && query.columns !== 'user_id');
+      expect(lookups).toEqual([]);
+    });
+
+    it('drops the jobs of tenants at their concurrency cap and pushes them again later', async () => {
+      jest.useFakeTimers();
+      config.maxJobsPerTenant = 1;
+      const rows = [row('job-1', 'user-1'), row('job-2', 'user-2')];
+      const { backend, byId } = createBackend(rows, ['user-1']);
+      await pushAll(backend, rows);
+
+      const claimed = await backend.claim(5, ['tripadvisor_import']);
+
+      expect(claimed.map(job => job.id)).toEqual(['job-2']);
+      expect(byId.get('job-1')!.status).toBe('pending');
+      expect(queueOf('tripadvisor_import').jobs.has('job-1')).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(queueOf('tripadvisor_import').waiting().map(job => job.id)).toEqual(['job-1']);
+    });
+
+    it('doesn\'t pop from empty queues', async () => {
+      const { backend } = createBackend();
+      backend['getQueue']('tripadvisor_import');
+
+      await expect(backend.claim(5, ['tripadvisor_import'])).resolves.toEqual([]);
+      expect(queueOf('tripadvisor_import').popped).toBe(0);
+    });
+  });
+
+  describe('promoteDueJobs', () => {
+    it('pushes pending jobs missing from Redis and keeps the ones still waiting', async () => {
+      const rows = [row('job-1', 'user-1'), row('job-2', 'user-2')];
+      const { backend } = createBackend(rows);
+      await pushAll(backend, [rows[0]]);
+      const waiting = queueOf('tripadvisor_import').jobs.get('job-1');
+
+      await backend.promoteDueJobs();
+
+      const queue = queueOf('tripadvisor_import');
+      expect(queue.waiting().map(job => job.id)).toEqual(['job-1', 'job-2']);
+      expect(queue.jobs.get('job-1')).toBe(waiting);
+    });
+
+    it('pages through every pending row', async () => {
+      const rows = Array.from({ length: 201 }, (_, index) => row(`job-${index}`, 'user-1'));
+      const { backend, queries } = createBackend(rows);
+
+      await backend.promoteDueJobs();
+
+      expect(queueOf('tripadvisor_import').waiting()).toHaveLength(201);
+      const pages = queries.filter(query => query.filters.some(filter => filter.method === 'range'));
+      expect(pages.map(page => page.filters.find(filter => filter.method === 'range')!.args)).toEqual([[0, 199], [200, 399]]);
+    });
+
+    it('leaves the sync to the worker holding the lease until it expires', async () => {
+      const rows = [row('job-1', 'user-1')];
+      const leader = createBackend(rows);
+      const follower = createBackend(rows);
+      const syncPages = (queries: RecordedQuery[]) =>
+        queries.filter(query => query.filters.some(filter => filter.method === 'range'));
+
+      config.workerId = 'worker-1';
+      await leader.backend.promoteDueJobs();
+      await leader.backend.promoteDueJobs();
+      config.workerId = 'worker-2';
+      await follower.backend.promoteDueJobs();
+
+      expect(syncPages(leader.queries)).toHaveLength(2);
+      expect(syncPages(follower.queries)).toHaveLength(0);
+
+      mockRedisKeys.clear();
+      await follower.backend.promoteDueJobs();
+
+      expect(syncPages(follower.queries)).toHaveLength(1);
+    });
+
+    it('replaces jobs a stopped worker left active', async () => {
+      const rows = [row('job-1', 'user-1')];
+      const { backend } = createBackend(rows);
+      await pushAll(backend, rows);
+      const stale = queueOf('tripadvisor_import').jobs.get('job-1')!;
+      stale.state = 'active';
+
+      await backend.promoteDueJobs();
+
+      expect(stale.removed).toBe(true);
+      expect(queueOf('tripadvisor_import').waiting().map(job => job.id)).toEqual(['job-1']);
+    });
+  });
+
+  describe('complete', () => {
+    it('removes the finished job from Redis', async () => {
+      const rows = [row('job-1', 'user-1')];
+      const { backend } = createBackend(rows);
+      await pushAll(backend, rows);
+      await backend.claim(1, ['tripadvisor_import']);
+
+      await backend.complete('job-1', 'completed');
+
+      expect(queueOf('tripadvisor_import').jobs.size).toBe(0);
+    });
+  });
+});
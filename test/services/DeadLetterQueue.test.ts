@@ -0,0 +1,174 @@
+import { DeadLetterQueue } from '../../src/services/DeadLetterQueue';
+import { PermanentJobError } from '../../src/utils/JobErrors';
+import { createSupabaseStub, filterValue, RecordedQuery } from '../supabaseStub';
+
+const failedJob = {
+  id: 'job-1',
+  user_id: 'user-1',
+  job_type: 'tripadvisor_import',
+  payload: { user_id: 'user-1', url: 'https://www.tripadvisor.com/Attraction_Review-g1-d2-Reviews-Tour.html' },
+  attempts: 3,
+  max_attempts: 3,
+  error_details: null,
+  created_at: '2026-10-01T00:00:00Z'
+};
+
+interface QueueState {
+  job?: typeof failedJob | null;
+  attempts?: any[];
+  // job_ids of unresolved dead_letter_jobs rows
+  unresolved?: string[];
+  failedJobs?: Array<{ id: string; error_message: string | null }>;
+  // Jobs whose requeue hits the active dedupe_key index
+  conflicting?: string[];
+}
+
+function createQueue(state: QueueState = {}) {
+  const stub = createSupabaseStub((query: RecordedQuery) => {
+    if (query.table === 'job_queue' && query.operation === 'update' && query.values.status === 'pending') {
+      const jobId = filterValue(query, 'eq', 'id');
+      return (state.conflicting || []).includes(jobId)
+        ? { error: { message: 'duplicate key value violates unique constraint', code: '23505' } }
+        : { data: [{ id: jobId }] };
+    }
+    if (query.operation !== 'select') {
+      return undefined;
+    }
+    if (query.table === 'job_attempts') {
+      return { data: state.attempts || [] };
+    }
+    if (query.table === 'dead_letter_jobs') {
+      const selected: string[] | undefined = filterValue(query, 'in', 'job_id');
+      const unresolved = state.unresolved || [];
+      return { data: unresolved.filter(jobId => !selected || selected.includes(jobId)).map(jobId => ({ job_id: jobId })) };
+    }
+    if (filterValue(query, 'eq', 'status') === 'failed') {
+      return { data: state.failedJobs || [] };
+    }
+    return { data: state.job === undefined ? failedJob : state.job };
+  });
+
+  return { ...stub, queue: new DeadLetterQueue(stub.client) };
+}
+
+const writes = (queries: RecordedQuery[], table: string) =>
+  queries.filter(query => query.table === table && query.operation !== 'select');
+
+describe('DeadLetterQueue', () => {
+  describe('deadLetter', () => {
+    it('keeps the payload and attempt history and moves the job to dead_letter', async () => {
+      const attempts = [
+        { attempt: 1, worker_id: 'worker-a', error_message: 'socket hang up', retryable: true },
+        { attempt: 2, worker_id: 'worker-b', error_message: 'Invalid place_id', retryable: false }
+      ];
+      const { queue, queries } = createQueue({ attempts });
+
+      await queue.deadLetter('job-1', new PermanentJobError('Invalid place_id'));
+
+      const [entry] = writes(queries, 'dead_letter_jobs');
+      expect(entry.operation).toBe('upsert');
+      expect(entry.values).toMatchObject({
+        job_id: 'job-1',
+        user_id: 'user-1',
+        payload: failedJob.payload,
+        error_class: 'invalid_payload',
+        error_chain: attempts,
+        attempts: 3,
+        resolution: null
+      });
+      expect(writes(queries, 'job_queue').map(query => query.values)).toEqual([
+        expect.objectContaining({ status: 'dead_letter', error_message: 'Invalid place_id' })
+      ]);
+    });
+
+    it('records the last error for jobs without recorded attempts', async () => {
+      const { queue, queries } = createQueue();
+
+      await queue.deadLetter('job-1', new Error('DataForSEO API Error: 500 - Internal Server Error'));
+
+      const [entry] = writes(queries, 'dead_letter_jobs');
+      expect(entry.values.error_class).toBe('dataforseo_api');
+      expect(entry.values.error_chain).toEqual([
+        { attempt: 3, error_message: 'DataForSEO API Error: 500 - Internal Server Error', error_details: null }
+      ]);
+    });
+
+    it('fails when the job no longer exists', async () => {
+      const { queue, queries } = createQueue({ job: null });
+
+      await expect(queue.deadLetter('job-1', new Error('socket hang up'))).rejects.toThrow('not found');
+      expect(writes(queries, 'dead_letter_jobs')).toEqual([]);
+    });
+  });
+
+  describe('requeue', () => {
+    it('puts unresolved jobs back as pending with a fresh attempt budget', async () => {
+      const { queue, queries } = createQueue({ unresolved: ['job-1', 'job-2'] });
+
+      const { requeued } = await queue.requeue({ job_ids: ['job-1', 'job-3'] });
+
+      expect(requeued).toEqual(['job-1']);
+      const [update] = writes(queries, 'job_queue');
+      expect(update.values).toMatchObject({ status: 'pending', attempts: 0, run_at: null, worker_id: null });
+      expect(filterValue(update, 'eq', 'id')).toBe('job-1');
+      expect(filterValue(update, 'eq', 'status')).toBe('dead_letter');
+      expect(writes(queries, 'dead_letter_jobs')[0].values).toMatchObject({ resolution: 'requeued' });
+    });
+
+    it('selects jobs by error class and job type', async () => {
+      const { queue, queries } = createQueue({ unresolved: ['job-1'] });
+
+      await queue.requeue({ error_class: 'timeout', job_type: 'google_reviews_import' });
+
+      const selection = queries.find(query => query.table === 'dead_letter_jobs' && query.operation === 'select');
+      expect(filterValue(selection!, 'eq', 'error_class')).toBe('timeout');
+      expect(filterValue(selection!, 'eq', 'job_type')).toBe('google_reviews_import');
+      expect(filterValue(selection!, 'is', 'resolution')).toBeNull();
+    });
+
+    it('changes nothing when no unresolved job matches', async () => {
+      const { queue, queries } = createQueue({ unresolved: [] });
+
+      await expect(queue.requeue({ job_ids: ['job-1'] })).resolves.toEqual({ requeued: [], conflicting: [] });
+      expect(writes(queries, 'job_queue')).toEqual([]);
+    });
+
+    it('skips and reports jobs whose listing already has an active import', async () => {
+      const { queue, queries } = createQueue({ unresolved: ['job-1', 'job-2', 'job-3'], conflicting: ['job-2'] });
+
+      const result = await queue.requeue({ job_ids: ['job-1', 'job-2', 'job-3'] });
+
+      expect(result).toEqual({ requeued: ['job-1', 'job-3'], conflicting: ['job-2'] });
+      const [resolution] = writes(queries, 'dead_letter_jobs');
+      expect(filterValue(resolution, 'in', 'job_id')).toEqual(['job-1', 'job-3']);
+    });
+  });
+
+  describe('discard', () => {
+    it('marks the jobs discarded for good', async () => {
+      const { queue, queries } = createQueue({ unresolved: ['job-1'] });
+
+      await expect(queue.discard({ job_ids: ['job-1'] })).resolves.toEqual(['job-1']);
+
+      expect(writes(queries, 'job_queue')[0].values).toEqual({ status: 'discarded' });
+      expect(writes(queries, 'dead_letter_jobs')[0].values).toMatchObject({ resolution: 'discarded' });
+    });
+  });
+
+  describe('importFailedJobs', () => {
+    it('classifies jobs failed before the dead-letter queue by their stored message', async () => {
+      const { queue, queries } = createQueue({
+        failedJobs: [
+          { id: 'job-1', error_message: 'DataForSEO task failed: 50301 - Internal Error' },
+          { id: 'job-2', error_message: null }
+        ]
+      });
+
+      await expect(queue.importFailedJobs(50)).resolves.toBe(2);
+
+      const entries = writes(queries, 'dead_letter_jobs').map(query => query.values);
+      expect(entries.map(entry => entry.error_class)).toEqual(['dataforseo_task', expect.any(String)]);
+      expect(entries[1].error_message).toBe('Unknown error');
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { FollowUpStep, JobChainer } from '../../src/services/JobChainer';
+import { SupabaseQueueBackend } from '../../src/services/SupabaseQueueBackend';
+import { createSupabaseStub, RecordedQuery } from '../supabaseStub';
+
+const step = (jobType: string, overrides: Partial<FollowUpStep> = {}): FollowUpStep => ({ job_type: jobType, ...overrides });
+
+// Nests count steps inside each other
+const chainOf = (count: number): FollowUpStep[] =>
+  count === 1 ? [step('tripadvisor_import')] : [step('tripadvisor_import', { follow_ups: chainOf(count - 1) })];
+
+interface ParentJob {
+  id: string;
+  user_id: string;
+  workflow_id: string | null;
+  follow_ups: FollowUpStep[] | null;
+  priority: number;
+}
+
+const parentJob = (overrides: Partial<ParentJob> = {}): ParentJob => ({
+  id: 'job-1',
+  user_id: 'user-1',
+  workflow_id: null,
+  follow_ups: null,
+  priority: 1,
+  ...overrides
+});
+
+// job_queue holding parent, or the rows of a workflow when listed
+function createChainer(parent: ParentJob | null, workflowRows: any[] = []) {
+  const stub = createSupabaseStub((query: RecordedQuery) => {
+    if (query.filters.some(filter => filter.method === 'or')) {
+      return { data: workflowRows };
+    }
+    return { data: parent };
+  });
+
+  const enqueue = jest.spyOn(SupabaseQueueBackend.prototype, 'enqueue')
+    .mockImplementation(async jobs => jobs.map((_, index) => ({ id: `child-${index + 1}` })));
+  const enqueuedJobs = () => enqueue.mock.calls.flatMap(([jobs]) => jobs);
+
+  return { ...stub, enqueuedJobs, chainer: new JobChainer(stub.client) };
+}
+
+describe('JobChainer', () => {
+  describe('validateFollowUps', () => {
+    const validate = (value: unknown) => JobChainer.validateFollowUps(value, 'user-1');
+
+    it('accepts nested follow-ups of known job types', () => {
+      expect(validate(undefined)).toBeNull();
+      expect(validate([
+        step('google_reviews_import', { payload: { place_id: 'abc' }, delay_seconds: 60, follow_ups: [step('review_attribution_repair')] })
+      ])).toBeNull();
+    });
+
+    it('checks each step\'s payload against its job type\'s schema', () => {
+      expect(validate([step('tripadvisor_import', { payload: { full_history: 'yes' } })]))
+        .toMatch(/^Follow-up tripadvisor_import: Invalid TripAdvisor import payload: "full_history" must be a boolean/);
+      expect(validate([step('tripadvisor_import', { follow_ups: [step('google_reviews_import', { payload: { location_code: 'x' } })] })]))
+        .toMatch(/^Follow-up google_reviews_import: /);
+    });
+
+    it('refuses follow-ups that name a sync job', () => {
+      expect(validate([step('review_attribution_repair', { payload: { sync_job_id: 'sync-of-user-2' } })]))
+        .toMatch(/sync_job_id/);
+    });
+
+    it('rejects unknown job types at any depth', () => {
+      expect(validate([step('send_digest')])).toBe('Unsupported follow-up job_type: send_digest');
+      expect(validate([step('tripadvisor_import', { follow_ups: [step('send_digest')] })]))
+        .toBe('Unsupported follow-up job_type: send_digest');
+    });
+
+    it('rejects malformed steps', () => {
+      expect(validate({ job_type: 'tripadvisor_import' })).toBe('follow_ups must be an array');
+      expect(validate(['tripadvisor_import'])).toBe('Each follow-up must be an object');
+      expect(validate([step('tripadvisor_import', { payload: [] as any })])).toBe('Follow-up payload must be an object');
+      expect(validate([step('tripadvisor_import', { delay_seconds: -5 })])).toMatch(/delay_seconds/);
+      expect(validate([step('tripadvisor_import', { priority: 1.5 })])).toMatch(/priority/);
+    });
+
+    it('limits how deep and how large a workflow can get', () => {
+      expect(validate(chainOf(5))).toBeNull();
+      expect(validate(chainOf(6))).toMatch(/nest at most 5 levels/);
+      expect(validate(Array.from({ length: 21 }, () => step('tripadvisor_import')))).toMatch(/at most 20 follow-up jobs/);
+    });
+  });
+
+  describe('enqueueFollowUps', () => {
+    it('enqueues each step as a child in the parent\'s workflow, run for the parent\'s operator', async () => {
+      const { chainer, enqueuedJobs } = createChainer(parentJob({
+        follow_ups: [
+          step('google_reviews_import', { payload: { place_id: 'abc', user_id: 'user-2' }, follow_ups: [step('review_attribution_repair')] }),
+          step('review_attribution_repair', { priority: 3 })
+        ]
+      }));
+
+      const childIds = await chainer.enqueueFollowUps('job-1');
+
+      expect(childIds).toEqual(['child-1', 'child-2']);
+      const [first, second] = enqueuedJobs();
+      expect(first).toMatchObject({
+        user_id: 'user-1',
+        job_type: 'google_reviews_import',
+        status: 'pending',
+        priority: 1,
+        payload: { parent_job_id: 'job-1', place_id: 'abc', user_id: 'user-1' },
+        parent_job_id: 'job-1',
+        workflow_id: 'job-1',
+        follow_ups: [step('review_attribution_repair')],
+        max_attempts: 3
+      });
+      expect(second).toMatchObject({ job_type: 'review_attribution_repair', priority: 3, follow_ups: null });
+    });
+
+    it('keeps children in the workflow the parent belongs to', async () => {
+      const { chainer, enqueuedJobs } = createChainer(parentJob({ id: 'job-2', workflow_id: 'job-1', follow_ups: [step('review_attribution_repair')] }));
+
+      await chainer.enqueueFollowUps('job-2');
+
+      expect(enqueuedJobs()[0]).toMatchObject({ parent_job_id: 'job-2', workflow_id: 'job-1' });
+    });
+
+    it('schedules delayed steps for later', async () => {
+      const { chainer, enqueuedJobs } = createChainer(parentJob({ follow_ups: [step('review_attribution_repair', { delay_seconds: 3600 })] }));
+      const before = Date.now();
+
+      await chainer.enqueueFollowUps('job-1');
+
+      const [child] = enqueuedJobs();
+      expect(child.status).toBe('scheduled');
+      expect(new Date(child.run_at!).getTime()).toBeGreaterThanOrEqual(before + 3600 * 1000);
+    });
+
+    it('enqueues nothing for a job without follow-ups', async () => {
+      const { chainer, enqueuedJobs } = createChainer(parentJob());
+
+      await expect(chainer.enqueueFollowUps('job-1')).resolves.toEqual([]);
+      expect(enqueuedJobs()).toEqual([]);
+    });
+  });
+
+  describe('getWorkflowSummary', () => {
+    it('returns null for a job outside any workflow', async () => {
+      const { chainer, queries } = createChainer(null);
+
+      await expect(chainer.getWorkflowSummary({ id: 'job-1' })).resolves.toBeNull();
+      expect(queries).toEqual([]);
+    });
+
+    it('counts the steps unfinished jobs have yet to enqueue', async () => {
+      const { chainer } = createChainer(null, [
+        { id: 'job-1', parent_job_id: null, job_type: 'tripadvisor_import', status: 'completed', follow_ups: chainOf(2) },
+        { id: 'job-2', parent_job_id: 'job-1', job_type: 'tripadvisor_import', status: 'processing', follow_ups: chainOf(1) }
+      ]);
+
+      const summary = await chainer.getWorkflowSummary({ id: 'job-2', workflow_id: 'job-1' });
+
+      expect(summary).toMatchObject({
+        workflow_id: 'job-1',
+        status: 'running',
+        total_jobs: 3,
+        completed_jobs: 1,
+        pending_steps: 1
+      });
+    });
+
+    it('reports the workflow failed once any of its jobs failed', async () => {
+      const { chainer } = createChainer(null, [
+        { id: 'job-1', parent_job_id: null, job_type: 'tripadvisor_import', status: 'completed', follow_ups: chainOf(1) },
+        { id: 'job-2', parent_job_id: 'job-1', job_type: 'tripadvisor_import', status: 'dead_letter', follow_ups: null }
+      ]);
+
+      const summary = await chainer.getWorkflowSummary({ id: 'job-1', follow_ups: chainOf(1) });
+
+      expect(summary).toMatchObject({ status: 'failed', failed_jobs: 1 });
+    });
+
+    it('reports the workflow completed once every job completed', async () => {
+      const { chainer } = createChainer(null, [
+        { id: 'job-1', parent_job_id: null, job_type: 'tripadvisor_import', status: 'completed', follow_ups: chainOf(1) },
+        { id: 'job-2', parent_job_id: 'job-1', job_type: 'tripadvisor_import', status: 'completed', follow_ups: null }
+      ]);
+
+      await expect(chainer.getWorkflowSummary({ id: 'job-1', follow_ups: chainOf(1) }))
+        .resolves.toMatchObject({ status: 'completed', total_jobs: 2, pending_steps: 0 });
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { Config } from '../../src/config/Config';
+import { JobClaimer } from '../../src/services/JobClaimer';
+import { createSupabaseStub, filterValue, RecordedQuery } from '../supabaseStub';
+
+interface PendingJob {
+  id: string;
+  user_id: string;
+  job_type: string;
+  payload: any;
+  priority: number;
+  created_at: string;
+}
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60000).toISOString();
+
+const pendingJob = (id: string, userId: string, overrides: Partial<PendingJob> = {}): PendingJob => ({
+  id,
+  user_id: userId,
+  job_type: 'tripadvisor_import',
+  payload: {},
+  priority: 2,
+  created_at: minutesAgo(1),
+  ...overrides
+});
+
+/**
+ * A job_queue with pending jobs and the operators of the jobs already running.
+ * Jobs in takenByOthers go to another worker just before this one tries to claim them.
+ */
+function createQueue(pending: PendingJob[], activeUserIds: string[] = [], takenByOthers: string[] = []) {
+  const claimedIds = new Set<string>();
+
+  const stub = createSupabaseStub((query: RecordedQuery) => {
+    if (query.table !== 'job_queue') {
+      return undefined;
+    }
+
+    if (query.operation === 'update') {
+      const ids: string[] = filterValue(query, 'in', 'id');
+      takenByOthers.forEach(id => ids.includes(id) && claimedIds.add(id));
+      const claimed = pending.filter(job => ids.includes(job.id) && !claimedIds.has(job.id));
+      claimed.forEach(job => claimedIds.add(job.id));
+      return { data: claimed };
+    }
+
+    if (query.columns === 'user_id') {
+      return { data: activeUserIds.map(userId => ({ user_id: userId })) };
+    }
+
+    return { data: pending.filter(job => !claimedIds.has(job.id)) };
+  });
+
+  return { ...stub, claimer: new JobClaimer(stub.client) };
+}
+
+describe('JobClaimer', () => {
+  const config = Config.getInstance();
+  const { maxJobsPerTenant, tenantConcurrencyOverrides } = config;
+
+  afterEach(() => {
+    config.maxJobsPerTenant = maxJobsPerTenant;
+    config.tenantConcurrencyOverrides = tenantConcurrencyOverrides;
+  });
+
+  describe('orderFairly', () => {
+    const { claimer } = createQueue([]);
+    const orderFairly = (candidates: PendingJob[], activeCounts: Record<string, number> = {}) =>
+      claimer['orderFairly'](candidates, new Map(Object.entries(activeCounts))).map(job => job.id);
+
+    it('hands out jobs round-robin across tenants', () => {
+      const candidates = [
+        pendingJob('a1', 'tenant-a', { created_at: minutesAgo(5) }),
+        pendingJob('a2', 'tenant-a', { created_at: minutesAgo(4) }),
+        pendingJob('a3', 'tenant-a', { created_at: minutesAgo(3) }),
+        pendingJob('b1', 'tenant-b', { created_at: minutesAgo(2) })
+      ];
+
+      expect(orderFairly(candidates)).toEqual(['a1', 'b1', 'a2', 'a3']);
+    });
+
+    it('starts with the tenants running the fewest jobs', () => {
+      const candidates = [
+        pendingJob('a1', 'tenant-a', { created_at: minutesAgo(10) }),
+        pendingJob('b1', 'tenant-b', { created_at: minutesAgo(1) })
+      ];
+
+      expect(orderFairly(candidates, { 'tenant-a': 1 })).toEqual(['b1', 'a1']);
+    });
+
+    it('orders a tenant\'s jobs by priority, then by age', () => {
+      const candidates = [
+        pendingJob('low', 'tenant-a', { priority: 3, created_at: minutesAgo(3) }),
+        pendingJob('high-newer', 'tenant-a', { priority: 1, created_at: minutesAgo(1) }),
+        pendingJob('high-older', 'tenant-a', { priority: 1, created_at: minutesAgo(2) })
+      ];
+
+      expect(orderFairly(candidates)).toEqual(['high-older', 'high-newer', 'low']);
+    });
+
+    it('lets long-waiting low-priority jobs overtake fresh high-priority ones', () => {
+      const agingMinutes = config.priorityAgingMinutes;
+      const candidates = [
+        pendingJob('fresh-high', 'tenant-a', { priority: 1, created_at: minutesAgo(0) }),
+        pendingJob('aged-low', 'tenant-a', { priority: 3, created_at: minutesAgo(agingMinutes * 3) })
+      ];
+
+      expect(orderFairly(candidates)).toEqual(['aged-low', 'fresh-high']);
+    });
+  });
+
+  describe('claimJobs', () => {
+    it('skips tenants at their concurrency cap', async () => {
+      config.maxJobsPerTenant = 2;
+      const { claimer, queries } = createQueue(
+        [pendingJob('a1', 'tenant-a'), pendingJob('b1', 'tenant-b')],
+        ['tenant-a', 'tenant-a']
+      );
+
+      const claimed = await claimer.claimJobs(5, ['tripadvisor_import']);
+
+      expect(claimed.map(job => job.id)).toEqual(['b1']);
+      const candidateQuery = queries.find(query => query.operation === 'select' && query.columns?.includes('created_at'));
+      expect(filterValue(candidateQuery!, 'not', 'user_id')).toBe('in');
+    });
+
+    it('claims no more of a tenant\'s jobs than its cap allows', async () => {
+      config.maxJobsPerTenant = 2;
+      const { claimer } = createQueue(
+        [pendingJob('a1', 'tenant-a'), pendingJob('a2', 'tenant-a'), pendingJob('a3', 'tenant-a')],
+        ['tenant-a']
+      );
+
+      const claimed = await claimer.claimJobs(5, ['tripadvisor_import']);
+
+      expect(claimed.map(job => job.id)).toEqual(['a1']);
+    });
+
+    it('applies per-operator overrides of the cap', async () => {
+      config.maxJobsPerTenant = 1;
+      config.tenantConcurrencyOverrides = { 'tenant-vip': 3 };
+      const { claimer } = createQueue([
+        pendingJob('vip1', 'tenant-vip'),
+        pendingJob('vip2', 'tenant-vip'),
+        pendingJob('a1', 'tenant-a'),
+        pendingJob('a2', 'tenant-a')
+      ]);
+
+      const claimed = await claimer.claimJobs(5, ['tripadvisor_import']);
+
+      expect(claimed.map(job => job.id).sort()).toEqual(['a1', 'vip1', 'vip2']);
+    });
+
+    it('fills slots left by jobs another worker claimed first on the next pass', async () => {
+      config.maxJobsPerTenant = 5;
+      const { claimer } = createQueue(
+        [
+          pendingJob('a1', 'tenant-a', { created_at: minutesAgo(3) }),
+          pendingJob('b1', 'tenant-b', { created_at: minutesAgo(2) }),
+          pendingJob('c1', 'tenant-c', { created_at: minutesAgo(1) })
+        ],
+        [],
+        ['a1']
+      );
+
+      const claimed = await claimer.claimJobs(2, ['tripadvisor_import']);
+
+      expect(claimed.map(job => job.id).sort()).toEqual(['b1', 'c1']);
+    });
+
+    it('respects per-job-type slots', async () => {
+      config.maxJobsPerTenant = 5;
+      const { claimer } = createQueue([
+        pendingJob('import1', 'tenant-a'),
+        pendingJob('import2', 'tenant-b'),
+        pendingJob('repair1', 'tenant-c', { job_type: 'attribution_repair' })
+      ]);
+
+      const claimed = await claimer.claimJobs(5, ['tripadvisor_import', 'attribution_repair'], { tripadvisor_import: 1 });
+
+      expect(claimed.map(job => job.job_type).sort()).toEqual(['attribution_repair', 'tripadvisor_import']);
+    });
+
+    it('loads candidates by priority as well as by age', async () => {
+      const { claimer, queries } = createQueue([]);
+
+      await claimer.claimJobs(1, ['tripadvisor_import']);
+
+      const orderings = queries
+        .filter(query => query.operation === 'select' && query.columns?.includes('created_at'))
+        .map(query => query.filters.filter(filter => filter.method === 'order').map(filter => filter.args[0]));
+      expect(orderings).toEqual(expect.arrayContaining([['priority', 'created_at'], ['created_at']]));
+    });
+
+    it('leaves pending jobs with a future run_at for later', async () => {
+      const { claimer, queries } = createQueue([]);
+
+      await claimer.claimJobs(1, ['tripadvisor_import']);
+
+      const candidateQuery = queries.find(query => query.operation === 'select' && query.columns?.includes('created_at'));
+      expect(candidateQuery!.filters.find(filter => filter.method === 'or')?.args[0]).toMatch(/^run_at\.is\.null,run_at\.lte\./);
+    });
+  });
+
+  describe('promoteDueJobs', () => {
+    it('makes delayed jobs and retries pending once their run_at has passed', async () => {
+      const { claimer, queries } = createQueue([]);
+
+      await claimer.promoteDueJobs();
+
+      const [promotion] = queries;
+      expect(promotion.values).toEqual({ status: 'pending' });
+      expect(filterValue(promotion, 'in', 'status')).toEqual(['scheduled', 'retry_scheduled']);
+      expect(new Date(filterValue(promotion, 'lte', 'run_at')).getTime()).toBeLessThanOrEqual(Date.now());
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { Config } from '../../src/config/Config';
+import { ReviewSourceProvider, ReviewSourceTarget } from '../../src/providers/ReviewSourceProvider';
+import { ImportCheckpoint } from '../../src/services/JobCheckpointStore';
+import { JobProcessor } from '../../src/services/JobProcessor';
+import { TaskPoller } from '../../src/services/TaskPoller';
+import { createSupabaseStub, filterValue, RecordedQuery } from '../supabaseStub';
+
+const SOURCE_URL = 'https://www.google.com/maps/place/?q=place_id:ChIJN1t_tDeuEmsRUsoyG83frY4';
+
+const reviewItems = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({ id: `review-${index + 1}`, date: `2026-01-0${index + 1}T00:00:00Z` }));
+
+const createProvider = (): ReviewSourceProvider => ({
+  platform: 'google',
+  jobType: 'google_reviews_import',
+  displayName: 'Google',
+  endpoint: 'business_data/google/reviews',
+  countDepth: 10,
+  incrementalDepth: 20,
+  resolveSource: jest.fn(() => ({ businessId: 'place-1', businessName: 'Canyon Tours', sourceUrl: SOURCE_URL, params: {} })),
+  createTask: jest.fn(async () => 'task-new'),
+  fetchTaskResult: jest.fn(),
+  parseTaskResult: jest.fn(),
+  normalizeReview: jest.fn((item: any) => ({
+    external_id: item.id,
+    author_name: 'Guest',
+    rating: 5,
+    text: '',
+    posted_at: item.date,
+    author_photo_url: null,
+    review_url: null
+  })),
+  getIncrementalCursor: jest.fn((item: any) => item.date),
+  matchesListing: jest.fn(() => false)
+});
+
+/**
+ * A processor for job-1 whose job_queue row holds checkpoint, with a task poller
+ * that finishes every task with reviewsData.
+ */
+function createProcessor(checkpoint: ImportCheckpoint | null, reviewsData: any) {
+  const stub = createSupabaseStub((query: RecordedQuery) => {
+    if (query.table === 'job_queue' && query.operation === 'select') {
+      return { data: checkpoint ? { checkpoint } : null };
+    }
+    return undefined;
+  });
+
+  // Checkpoint saved last when the job started waiting on a task
+  const savedBeforeWait: ImportCheckpoint[] = [];
+  const checkpointSaves = () => stub.queries
+    .filter(query => query.table === 'job_queue' && query.operation === 'update' && query.values.checkpoint)
+    .map(query => query.values.checkpoint as ImportCheckpoint);
+
+  const taskPoller = {
+    registerTask: jest.fn(async () => undefined),
+    waitFor: jest.fn(async () => {
+      const saves = checkpointSaves();
+      savedBeforeWait.push({ ...saves[saves.length - 1]! });
+      return reviewsData;
+    })
+  };
+
+  const processor = new JobProcessor(stub.client, taskPoller as unknown as TaskPoller);
+  return { ...stub, taskPoller, processor, checkpointSaves, savedBeforeWait };
+}
+
+const syncJobUpdates = (queries: RecordedQuery[]) =>
+  queries.filter(query => query.table === 'review_sync_jobs' && query.operation === 'update').map(query => query.values);
+
+const importedIds = (queries: RecordedQuery[]) =>
+  queries
+    .filter(query => query.table === 'tripadvisor_reviews' && query.operation === 'upsert')
+    .flatMap(query => query.values.map((review: any) => review.external_id));
+
+describe('JobProcessor', () => {
+  const config = Config.getInstance();
+  const { batchSize } = config;
+
+  afterEach(() => {
+    config.batchSize = batchSize;
+  });
+
+  describe('resuming from a checkpoint', () => {
+    it('waits on the checkpointed task instead of posting a new one', async () => {
+      const provider = createProvider();
+      const { processor, taskPoller, queries } = createProcessor(
+        { phase: 'fetching', sync_job_id: 'sync-1', last_review_date: null, full_task_id: 'task-1' },
+        { items: reviewItems(2), reviews_count: 2 }
+      );
+
+      await processor.processReviewImport('job-1', provider, { user_id: 'user-1', place_id: 'place-1', full_history: true });
+
+      expect(provider.createTask).not.toHaveBeenCalled();
+      expect(taskPoller.waitFor).toHaveBeenCalledTimes(1);
+      expect(taskPoller.waitFor.mock.calls[0]).toEqual(expect.arrayContaining(['task-1', 'job-1', provider, true]));
+      expect(syncJobUpdates(queries)[0]).toMatchObject({ status: 'processing' });
+      expect(importedIds(queries)).toEqual(['review-1', 'review-2']);
+    });
+
+    it('continues an interrupted import after the last checkpointed batch', async () => {
+      config.batchSize = 2;
+      const { processor, queries, checkpointSaves } = createProcessor(
+        {
+          phase: 'importing',
+          sync_job_id: 'sync-1',
+          last_review_date: null,
+          full_task_id: 'task-1',
+          imported_offset: 2,
+          imported_count: 2
+        },
+        { items: reviewItems(5), reviews_count: 5 }
+      );
+
+      await processor.processReviewImport('job-1', createProvider(), { user_id: 'user-1', place_id: 'place-1', full_history: true });
+
+      expect(importedIds(queries)).toEqual(['review-3', 'review-4', 'review-5']);
+      const saves = checkpointSaves();
+      expect(saves[saves.length - 1]).toMatchObject({ phase: 'completed', imported_count: 5 });
+      expect(syncJobUpdates(queries)).toContainEqual(expect.objectContaining({ status: 'succeeded', imported_count: 5 }));
+    });
+
+    it('only marks the sync job done when the import finished before the worker stopped', async () => {
+      const provider = createProvider();
+      const { processor, taskPoller, queries } = createProcessor(
+        { phase: 'completed', sync_job_id: 'sync-1', last_review_date: null, imported_count: 7, total_available: 7 },
+        null
+      );
+
+      await processor.processReviewImport('job-1', provider, { user_id: 'user-1', place_id: 'place-1', full_history: true });
+
+      expect(taskPoller.waitFor).not.toHaveBeenCalled();
+      expect(importedIds(queries)).toEqual([]);
+      expect(syncJobUpdates(queries)).toContainEqual(expect.objectContaining({ status: 'succeeded', imported_count: 7 }));
+    });
+
+    it('checkpoints a fresh import\'s task before waiting on it', async () => {
+      const provider = createProvider();
+      const { processor, savedBeforeWait } = createProcessor(null, { items: [], reviews_count: 0 });
+
+      await processor.processReviewImport('job-1', provider, { user_id: 'user-1', place_id: 'place-1', full_history: false });
+
+      expect(provider.createTask).toHaveBeenCalledTimes(1);
+      expect(savedBeforeWait).toEqual([expect.objectContaining({ phase: 'fetching', full_task_id: 'task-new' })]);
+    });
+  });
+
+  describe('adopting a sync job', () => {
+    it('only adopts a sync job of the job\'s own operator', async () => {
+      const { processor, queries } = createProcessor(null, { items: [], reviews_count: 0 });
+
+      await processor.processReviewImport('job-1', createProvider(), {
+        user_id: 'user-1',
+        place_id: 'place-1',
+        full_history: true,
+        sync_job_id: 'sync-of-user-2'
+      });
+
+      const [adoption, ...rest] = queries.filter(query => query.table === 'review_sync_jobs');
+      expect(filterValue(adoption!, 'eq', 'id')).toBe('sync-of-user-2');
+      expect(filterValue(adoption!, 'eq', 'tour_operator_id')).toBe('user-1');
+      // Nothing matched, so the import gets a sync job of its own
+      expect(rest.find(query => query.operation === 'insert')?.values).toMatchObject({ tour_operator_id: 'user-1' });
+    });
+  });
+
+  describe('findLastReviewDate', () => {
+    // Succeeded sync jobs of the listing, newest first, and the newest review they imported
+    function createLookup(syncJobIds: string[]) {
+      const stub = createSupabaseStub((query: RecordedQuery) => {
+        if (query.table === 'review_sync_jobs') {
+          return { data: syncJobIds.map(id => ({ id })) };
+        }
+        if (query.table === 'tripadvisor_reviews') {
+          return { data: { posted_at: '2026-01-05T00:00:00Z' } };
+        }
+        return undefined;
+      });
+      return { ...stub, processor: new JobProcessor(stub.client, {} as TaskPoller) };
+    }
+
+    const target = (sourceUrl: string | null): ReviewSourceTarget =>
+      ({ businessId: 'place-1', businessName: 'Canyon Tours', sourceUrl, params: {} });
+    const reviewQuery = (queries: RecordedQuery[]) => queries.find(query => query.table === 'tripadvisor_reviews');
+
+    it('matches stored reviews on the listing\'s source URL', async () => {
+      const { processor, queries } = createLookup(['sync-1']);
+
+      await expect(processor['findLastReviewDate'](createProvider(), 'user-1', target(SOURCE_URL)))
+        .resolves.toBe('2026-01-05T00:00:00Z');
+
+      expect(filterValue(reviewQuery(queries)!, 'eq', 'source_url')).toBe(SOURCE_URL);
+    });
+
+    it('matches the reviews of a listing without a source URL through its sync jobs', async () => {
+      const { processor, queries } = createLookup(['sync-2', 'sync-1']);
+
+      await expect(processor['findLastReviewDate'](createProvider(), 'user-1', target(null)))
+        .resolves.toBe('2026-01-05T00:00:00Z');
+
+      const syncQuery = queries.find(query => query.table === 'review_sync_jobs');
+      expect(filterValue(syncQuery!, 'eq', 'source_business_id')).toBe('place-1');
+      expect(filterValue(reviewQuery(queries)!, 'in', 'job_id')).toEqual(['sync-2', 'sync-1']);
+      expect(filterValue(reviewQuery(queries)!, 'eq', 'tour_operator_id')).toBe('user-1');
+    });
+
+    it('imports everything until a sync of the listing has succeeded', async () => {
+      const { processor, queries } = createLookup([]);
+
+      await expect(processor['findLastReviewDate'](createProvider(), 'user-1', target(null))).resolves.toBeNull();
+      expect(reviewQuery(queries)).toBeUndefined();
+    });
+  });
+});
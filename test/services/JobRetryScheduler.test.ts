@@ -0,0 +1,246 @@
+import { Config } from '../../src/config/Config';
+import { DeadLetterQueue } from '../../src/services/DeadLetterQueue';
+import { JobAttempt, JobRetryScheduler } from '../../src/services/JobRetryScheduler';
+import { JobTimeoutError, PermanentJobError, PoisonJobError } from '../../src/utils/JobErrors';
+import { createSupabaseStub, filterValue, RecordedQuery } from '../supabaseStub';
+
+const attempt = (overrides: Partial<JobAttempt> = {}): JobAttempt => ({
+  attempt: 1,
+  maxAttempts: 3,
+  startedAt: new Date().toISOString(),
+  retryDelaySeconds: 60,
+  retryMaxDelaySeconds: 3600,
+  ...overrides
+});
+
+interface SchedulerState {
+  // Attempt counters of the job being started
+  job?: { attempts: number | null; max_attempts: number | null };
+  // Crashed attempts of the job, by worker id
+  crashedOn?: string[];
+}
+
+function createScheduler(state: SchedulerState = {}) {
+  const stub = createSupabaseStub((query: RecordedQuery) => {
+    if (query.table === 'job_queue' && query.operation === 'select') {
+      return { data: state.job || { attempts: 0, max_attempts: 3 } };
+    }
+    if (query.table === 'job_attempts' && query.operation === 'select') {
+      return { data: (state.crashedOn || []).map(workerId => ({ worker_id: workerId })) };
+    }
+    return undefined;
+  });
+
+  const deadLetter = jest.spyOn(DeadLetterQueue.prototype, 'deadLetter').mockResolvedValue();
+  return { ...stub, deadLetter, scheduler: new JobRetryScheduler(stub.client) };
+}
+
+const jobUpdates = (queries: RecordedQuery[]) =>
+  queries.filter(query => query.table === 'job_queue' && query.operation === 'update').map(query => query.values);
+
+describe('JobRetryScheduler', () => {
+  describe('backoff', () => {
+    const { scheduler } = createScheduler();
+    const backoff = (overrides: Partial<JobAttempt>) => scheduler['getBackoffSeconds'](attempt(overrides));
+
+    it('doubles the retry delay with every attempt', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect([1, 2, 3, 4].map(number => backoff({ attempt: number }))).toEqual([60, 120, 240, 480]);
+    });
+
+    it('caps the delay at the maximum', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(backoff({ attempt: 10, retryMaxDelaySeconds: 900 })).toBe(900);
+    });
+
+    it('jitters the delay by up to 10% either way', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      expect(backoff({ attempt: 1 })).toBe(54);
+
+      jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+      expect(backoff({ attempt: 1 })).toBe(66);
+    });
+  });
+
+  describe('startAttempt', () => {
+    const config = Config.getInstance();
+
+    it('counts the attempt on the job', async () => {
+      const { scheduler, queries } = createScheduler({ job: { attempts: 1, max_attempts: 5 } });
+
+      const started = await scheduler.startAttempt('job-1');
+
+      expect(started).toMatchObject({ attempt: 2, maxAttempts: 5 });
+      expect(jobUpdates(queries)).toEqual([{ attempts: 2 }]);
+    });
+
+    it('takes max_attempts and delays from the job type\'s retry policy', async () => {
+      const { scheduler } = createScheduler({ job: { attempts: 0, max_attempts: null } });
+
+      const started = await scheduler.startAttempt('job-1', { maxAttempts: 5, retryDelaySeconds: 10 });
+
+      expect(started).toMatchObject({
+        maxAttempts: 5,
+        retryDelaySeconds: 10,
+        retryMaxDelaySeconds: config.retryMaxDelaySeconds
+      });
+    });
+
+    it('prefers a max_attempts stored on the job over the policy', async () => {
+      const { scheduler } = createScheduler({ job: { attempts: 0, max_attempts: 2 } });
+
+      await expect(scheduler.startAttempt('job-1', { maxAttempts: 5 })).resolves.toMatchObject({ maxAttempts: 2 });
+    });
+
+    it('falls back to MAX_RETRY_ATTEMPTS without a policy', async () => {
+      const { scheduler } = createScheduler({ job: { attempts: null, max_attempts: null } });
+
+      await expect(scheduler.startAttempt('job-1')).resolves.toMatchObject({
+        attempt: 1,
+        maxAttempts: config.maxRetryAttempts,
+        retryDelaySeconds: config.retryDelaySeconds
+      });
+    });
+  });
+
+  describe('handleFailure', () => {
+    it('schedules a retry while attempts remain', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      const { scheduler, queries, deadLetter } = createScheduler();
+      const before = Date.now();
+
+      const outcome = await scheduler.handleFailure('job-1', attempt({ attempt: 1 }), new Error('socket hang up'));
+
+      expect(outcome).toBe('retry_scheduled');
+      expect(deadLetter).not.toHaveBeenCalled();
+      const [update] = jobUpdates(queries);
+      expect(update).toMatchObject({ status: 'retry_scheduled', worker_id: null, claimed_at: null });
+      expect(new Date(update.run_at).getTime()).toBeGreaterThanOrEqual(before + 60 * 1000);
+    });
+
+    it('backs off by the retry delay of the job type', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      const { scheduler, queries } = createScheduler();
+      const before = Date.now();
+
+      await scheduler.handleFailure('job-1', attempt({ attempt: 2, retryDelaySeconds: 600 }), new Error('socket hang up'));
+
+      const [update] = jobUpdates(queries);
+      expect(new Date(update.run_at).getTime()).toBeGreaterThanOrEqual(before + 1200 * 1000);
+    });
+
+    it('records the failed attempt', async () => {
+      const { scheduler, queries } = createScheduler();
+
+      await scheduler.handleFailure('job-1', attempt({ attempt: 2 }), new Error('socket hang up'));
+
+      const history = queries.find(query => query.table === 'job_attempts' && query.operation === 'insert');
+      expect(history?.values).toMatchObject({ job_id: 'job-1', attempt: 2, retryable: true, crashed: false, error_message: 'socket hang up' });
+    });
+
+    it('dead-letters the job after its last attempt', async () => {
+      const { scheduler, queries, deadLetter } = createScheduler();
+      const error = new Error('socket hang up');
+
+      const outcome = await scheduler.handleFailure('job-1', attempt({ attempt: 3, maxAttempts: 3 }), error);
+
+      expect(outcome).toBe('dead_letter');
+      expect(deadLetter).toHaveBeenCalledWith('job-1', error);
+      expect(jobUpdates(queries)).toEqual([]);
+    });
+
+    it('dead-letters errors that retrying can\'t fix on the first attempt', async () => {
+      const { scheduler, queries, deadLetter } = createScheduler();
+
+      const outcome = await scheduler.handleFailure('job-1', attempt({ attempt: 1 }), new PermanentJobError('Invalid payload'));
+
+      expect(outcome).toBe('dead_letter');
+      expect(deadLetter).toHaveBeenCalled();
+      const history = queries.find(query => query.table === 'job_attempts' && query.operation === 'insert');
+      expect(history?.values.retryable).toBe(false);
+    });
+
+    it('marks the job failed when the dead-letter write fails', async () => {
+      const { scheduler, queries, deadLetter } = createScheduler();
+      deadLetter.mockRejectedValue(new Error('insert failed'));
+
+      const outcome = await scheduler.handleFailure('job-1', attempt({ attempt: 3 }), new Error('socket hang up'));
+
+      expect(outcome).toBe('failed');
+      expect(jobUpdates(queries)).toEqual([expect.objectContaining({ status: 'failed', error_message: 'socket hang up' })]);
+    });
+
+    it('doesn\'t retry DataForSEO client errors other than rate limits', async () => {
+      const { scheduler } = createScheduler();
+
+      await expect(scheduler.handleFailure('job-1', attempt(), new Error('DataForSEO API Error: 404 - Not Found')))
+        .resolves.toBe('dead_letter');
+      await expect(scheduler.handleFailure('job-1', attempt(), new Error('DataForSEO API Error: 429 - Too Many Requests')))
+        .resolves.toBe('retry_scheduled');
+    });
+
+    it('records a timed-out attempt as crashed', async () => {
+      const { scheduler, queries } = createScheduler();
+
+      await scheduler.handleFailure('job-1', attempt(), new JobTimeoutError('job-1', 60));
+
+      const history = queries.find(query => query.table === 'job_attempts' && query.operation === 'insert');
+      expect(history?.values.crashed).toBe(true);
+    });
+
+    it('retries a timed-out attempt while the job crashed on few workers', async () => {
+      const { scheduler } = createScheduler({ crashedOn: ['worker-a', 'worker-a'] });
+
+      const outcome = await scheduler.handleFailure('job-1', attempt({ attempt: 1 }), new JobTimeoutError('job-1', 60));
+
+      expect(outcome).toBe('retry_scheduled');
+    });
+
+    it('quarantines a timed-out job that crashed on too many workers', async () => {
+      const threshold = Config.getInstance().poisonJobWorkerThreshold;
+      const workers = Array.from({ length: threshold }, (_, index) => `worker-${index}`);
+      const { scheduler, deadLetter } = createScheduler({ crashedOn: workers });
+
+      const outcome = await scheduler.handleFailure('job-1', attempt({ attempt: 1 }), new JobTimeoutError('job-1', 60));
+
+      expect(outcome).toBe('dead_letter');
+      expect(deadLetter).toHaveBeenCalledWith('job-1', expect.any(PoisonJobError));
+    });
+  });
+
+  describe('recordCrash', () => {
+    const job = { id: 'job-1', attempts: 1, max_attempts: 3, started_at: new Date().toISOString() };
+
+    it('records the crashed attempt and lets the job be requeued', async () => {
+      const { scheduler, queries } = createScheduler({ crashedOn: ['worker-a'] });
+
+      const poison = await scheduler.recordCrash(job, 'worker-a');
+
+      expect(poison).toBeNull();
+      const crash = queries.find(query => query.table === 'job_attempts' && query.operation === 'insert');
+      expect(crash?.values).toMatchObject({ job_id: 'job-1', worker_id: 'worker-a', crashed: true });
+    });
+
+    it('flags a job that crashed its worker on its last attempt, even on a single worker id', async () => {
+      const { scheduler } = createScheduler({ crashedOn: ['worker-a', 'worker-a', 'worker-a'] });
+
+      const poison = await scheduler.recordCrash({ ...job, attempts: 3 }, 'worker-a');
+
+      expect(poison).toBeInstanceOf(PoisonJobError);
+    });
+
+    it('flags a job that crashed on too many workers', async () => {
+      const threshold = Config.getInstance().poisonJobWorkerThreshold;
+      const workers = Array.from({ length: threshold }, (_, index) => `worker-${index}`);
+      const { scheduler, queries } = createScheduler({ crashedOn: workers });
+
+      const poison = await scheduler.recordCrash(job, 'worker-0');
+
+      expect(poison?.workerIds).toEqual(workers);
+      const crashQuery = queries.find(query => query.table === 'job_attempts' && query.operation === 'select');
+      expect(filterValue(crashQuery!, 'eq', 'crashed')).toBe(true);
+    });
+  });
+});
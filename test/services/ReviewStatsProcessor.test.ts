@@ -0,0 +1,63 @@
+import { ReviewStatsProcessor } from '../../src/services/ReviewStatsProcessor';
+import { createSupabaseStub, filterValue, RecordedQuery } from '../supabaseStub';
+
+const review = (id: number, source: string, rating: number | null) => ({ id, source, rating });
+
+// Serves the operator's reviews one page at a time, as the range filter asks for them
+function createStats(reviews: ReturnType<typeof review>[]) {
+  const stub = createSupabaseStub((query: RecordedQuery) => {
+    if (query.table === 'tripadvisor_reviews') {
+      const [from, to] = query.filters.find(filter => filter.method === 'range')!.args;
+      return { data: reviews.slice(from, to + 1) };
+    }
+    return undefined;
+  });
+
+  return { ...stub, stats: new ReviewStatsProcessor(stub.client) };
+}
+
+const statsSummary = (queries: RecordedQuery[]) =>
+  queries.find(query => query.table === 'job_queue' && query.operation === 'update')?.values.result;
+
+describe('ReviewStatsProcessor', () => {
+  it('stores per-platform and overall averages with the star distribution', async () => {
+    const { stats, queries } = createStats([
+      review(1, 'tripadvisor', 5),
+      review(2, 'tripadvisor', 4),
+      review(3, 'google', 3),
+      review(4, 'google', null)
+    ]);
+
+    await stats.process('job-1', { user_id: 'user-1' });
+
+    expect(statsSummary(queries)).toMatchObject({
+      review_count: 4,
+      average_rating: 4,
+      platforms: {
+        tripadvisor: { review_count: 2, average_rating: 4.5, rating_distribution: { '4': 1, '5': 1 } },
+        google: { review_count: 2, average_rating: 3, rating_distribution: { '3': 1 } }
+      }
+    });
+  });
+
+  it('limits the scan to the operator and the requested platform', async () => {
+    const { stats, queries } = createStats([]);
+
+    await stats.process('job-1', { user_id: 'user-1', platform: 'google' });
+
+    const scan = queries.find(query => query.table === 'tripadvisor_reviews');
+    expect(filterValue(scan!, 'eq', 'tour_operator_id')).toBe('user-1');
+    expect(filterValue(scan!, 'eq', 'source')).toBe('google');
+    expect(statsSummary(queries)).toMatchObject({ review_count: 0, average_rating: null, platforms: {} });
+  });
+
+  it('pages through operators with more reviews than one page', async () => {
+    const reviews = Array.from({ length: 1500 }, (_, i) => review(i, 'tripadvisor', 4));
+    const { stats, queries } = createStats(reviews);
+
+    await stats.process('job-1', { user_id: 'user-1' });
+
+    expect(queries.filter(query => query.table === 'tripadvisor_reviews')).toHaveLength(2);
+    expect(statsSummary(queries)).toMatchObject({ review_count: 1500, average_rating: 4 });
+  });
+});
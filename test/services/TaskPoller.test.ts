@@ -0,0 +1,110 @@
+import { DataForSEOClient } from '../../src/clients/DataForSEOClient';
+import { Config } from '../../src/config/Config';
+import { TaskPoller } from '../../src/services/TaskPoller';
+import { TaskResultStore } from '../../src/services/TaskResultStore';
+import { JobCancelledError } from '../../src/utils/JobErrors';
+import { createSupabaseStub } from '../supabaseStub';
+
+const GOOGLE_ENDPOINT = 'business_data/google/reviews';
+const TRUSTPILOT_ENDPOINT = 'business_data/trustpilot/reviews';
+
+// A provider whose tasks finish with { task_id } once fetched
+const taskSource = (endpoint: string) => ({
+  endpoint,
+  fetchTaskResult: jest.fn(async (taskId: string) => ({ status: 'ready' as const, result: { task_id: taskId } })),
+  parseTaskResult: jest.fn((task: any) => ({ status: 'ready' as const, result: task.result[0] }))
+});
+
+function createPoller(readyIds: Record<string, string[]> = {}, callbacks = false) {
+  const getTasksReady = jest.spyOn(DataForSEOClient.prototype, 'getTasksReady')
+    .mockImplementation(async endpoint => readyIds[endpoint] || []);
+  jest.spyOn(DataForSEOClient.prototype, 'hasCallbacks').mockReturnValue(callbacks);
+
+  const stub = createSupabaseStub();
+  return { ...stub, getTasksReady, poller: new TaskPoller(stub.client) };
+}
+
+describe('TaskPoller', () => {
+  it('asks tasks_ready once per endpoint and fetches only the finished tasks', async () => {
+    const { poller, getTasksReady } = createPoller({ [GOOGLE_ENDPOINT]: ['task-1'] });
+    const google = taskSource(GOOGLE_ENDPOINT);
+    const trustpilot = taskSource(TRUSTPILOT_ENDPOINT);
+
+    const finished = poller.waitFor('task-1', 'job-1', google);
+    poller.waitFor('task-2', 'job-2', google);
+    poller.waitFor('task-3', 'job-3', trustpilot);
+    await poller['poll']();
+
+    await expect(finished).resolves.toEqual({ task_id: 'task-1' });
+    expect(getTasksReady.mock.calls.map(([endpoint]) => endpoint).sort()).toEqual([GOOGLE_ENDPOINT, TRUSTPILOT_ENDPOINT]);
+    expect(google.fetchTaskResult).toHaveBeenCalledTimes(1);
+    expect(trustpilot.fetchTaskResult).not.toHaveBeenCalled();
+    expect(poller.getWaitingJobCount()).toBe(2);
+  });
+
+  it('checks a task directly every few ticks when tasks_ready never lists it', async () => {
+    const { poller } = createPoller();
+    const google = taskSource(GOOGLE_ENDPOINT);
+
+    const finished = poller.waitFor('task-1', 'job-1', google);
+    for (let tick = 0; tick < 6; tick++) {
+      await poller['poll']();
+    }
+
+    await expect(finished).resolves.toEqual({ task_id: 'task-1' });
+    expect(google.fetchTaskResult).toHaveBeenCalledTimes(1);
+  });
+
+  it('fetches a resumed task on the first tick, since tasks_ready may no longer list it', async () => {
+    const { poller } = createPoller();
+    const google = taskSource(GOOGLE_ENDPOINT);
+
+    const finished = poller.waitFor('task-1', 'job-1', google, true);
+    await poller['poll']();
+
+    await expect(finished).resolves.toEqual({ task_id: 'task-1' });
+  });
+
+  it('resolves a waiting job as soon as this process stores its callback result', async () => {
+    const { poller, client } = createPoller({}, true);
+    const google = taskSource(GOOGLE_ENDPOINT);
+
+    const finished = poller.waitFor('task-1', 'job-1', google);
+    await new TaskResultStore(client).saveTaskResult({ id: 'task-1', result: [{ items: [] }] });
+
+    await expect(finished).resolves.toEqual({ items: [] });
+    expect(poller.getWaitingJobCount()).toBe(0);
+  });
+
+  it('rejects tasks that outlive the wait timeout', async () => {
+    const { poller } = createPoller();
+    const finished = poller.waitFor('task-1', 'job-1', taskSource(GOOGLE_ENDPOINT));
+
+    const timeoutMs = Config.getInstance().taskWaitTimeoutMinutes * 60 * 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + timeoutMs + 1);
+    await poller['poll']();
+
+    await expect(finished).rejects.toThrow('timed out');
+  });
+
+  it('stops waiting as soon as the job is cancelled', async () => {
+    const { poller } = createPoller();
+    const controller = new AbortController();
+    const finished = poller.waitFor('task-1', 'job-1', taskSource(GOOGLE_ENDPOINT), false, controller.signal);
+
+    controller.abort();
+
+    await expect(finished).rejects.toBeInstanceOf(JobCancelledError);
+    expect(poller.getWaitingJobCount()).toBe(0);
+  });
+
+  it('rejects every waiting job when stopped', async () => {
+    const { poller } = createPoller();
+    const finished = poller.waitFor('task-1', 'job-1', taskSource(GOOGLE_ENDPOINT));
+
+    poller.stop();
+
+    await expect(finished).rejects.toThrow('Task poller stopped');
+    expect(poller.getWaitingJobCount()).toBe(0);
+  });
+});
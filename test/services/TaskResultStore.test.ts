@@ -0,0 +1,83 @@
+import { TaskResultStore } from '../../src/services/TaskResultStore';
+import { createSupabaseStub, filterValue, RecordedQuery } from '../supabaseStub';
+
+const readyTask = (id: string) => ({ id, status_code: 20000, result: [{ items: [] }] });
+
+// dataforseo_tasks rows by task id
+function createStore(rows: Record<string, { status: string; task: any }> = {}) {
+  const stub = createSupabaseStub((query: RecordedQuery) => {
+    if (query.operation !== 'select') {
+      return undefined;
+    }
+    const taskIds: string[] = filterValue(query, 'in', 'task_id');
+    const status = filterValue(query, 'eq', 'status');
+    return {
+      data: taskIds
+        .filter(taskId => rows[taskId] && rows[taskId].status === status)
+        .map(taskId => ({ task_id: taskId, task: rows[taskId].task }))
+    };
+  });
+
+  return { ...stub, store: new TaskResultStore(stub.client) };
+}
+
+describe('TaskResultStore', () => {
+  it('registers tasks as pending with the job waiting on them', async () => {
+    const { store, queries } = createStore();
+
+    await store.registerTask('task-1', 'business_data/google/reviews', 'job-1');
+
+    const [registration] = queries;
+    expect(registration.operation).toBe('upsert');
+    expect(registration.values).toMatchObject({ task_id: 'task-1', queue_job_id: 'job-1', status: 'pending' });
+  });
+
+  it('returns only the results callbacks already delivered', async () => {
+    const task = readyTask('task-2');
+    const { store } = createStore({
+      'task-1': { status: 'pending', task: null },
+      'task-2': { status: 'ready', task }
+    });
+
+    const results = await store.getTaskResults(['task-1', 'task-2', 'task-3']);
+
+    expect(Array.from(results.entries())).toEqual([['task-2', task]]);
+  });
+
+  it('doesn\'t query for an empty list of tasks', async () => {
+    const { store, queries } = createStore();
+
+    await expect(store.getTaskResults([])).resolves.toEqual(new Map());
+    expect(queries).toEqual([]);
+  });
+
+  it('stores delivered results and hands them to subscribers in this process', async () => {
+    const { store, queries } = createStore();
+    const task = readyTask('task-1');
+    const listener = jest.fn();
+    store.subscribe('task-1', listener);
+
+    await store.saveTaskResult(task, 'business_data/google/reviews');
+
+    expect(listener).toHaveBeenCalledWith(task);
+    expect(queries[0].values).toMatchObject({ task_id: 'task-1', status: 'ready', task });
+  });
+
+  it('stops notifying a subscriber once it unsubscribed', async () => {
+    const { store } = createStore();
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe('task-1', listener);
+
+    unsubscribe();
+    await store.saveTaskResult(readyTask('task-1'));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('fails when the result can\'t be stored', async () => {
+    const stub = createSupabaseStub(() => ({ error: { message: 'connection reset' } }));
+    const store = new TaskResultStore(stub.client);
+
+    await expect(store.saveTaskResult(readyTask('task-1'))).rejects.toThrow('connection reset');
+  });
+});
@@ -0,0 +1,165 @@
+import { Config } from '../../src/config/Config';
+import { JobRetryScheduler } from '../../src/services/JobRetryScheduler';
+import { WorkerReaper } from '../../src/services/WorkerReaper';
+import { PoisonJobError } from '../../src/utils/JobErrors';
+import { createSupabaseStub, filterValue, RecordedQuery } from '../supabaseStub';
+
+interface ReaperState {
+  staleWorkerIds?: string[];
+  // Stale workers another reaper marks offline first
+  reapedElsewhere?: string[];
+  // Ids of the claimed or processing jobs each worker holds
+  heldJobs?: Record<string, string[]>;
+  // Ids of the jobs each worker was processing when it died
+  processingJobs?: Record<string, string[]>;
+  // Ids of the jobs each worker was cancelling when it died
+  cancellingJobs?: Record<string, string[]>;
+}
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60000).toISOString();
+
+function createReaper(state: ReaperState = {}) {
+  const stub = createSupabaseStub((query: RecordedQuery) => {
+    if (query.table === 'workers') {
+      if (query.operation === 'select') {
+        return { data: (state.staleWorkerIds || []).map(id => ({ id })) };
+      }
+      if (query.operation === 'update') {
+        const workerId = filterValue(query, 'eq', 'id');
+        return { data: (state.reapedElsewhere || []).includes(workerId) ? [] : [{ id: workerId }] };
+      }
+      return undefined;
+    }
+
+    if (query.table === 'job_queue' && query.operation === 'select') {
+      const processing = state.processingJobs?.[filterValue(query, 'eq', 'worker_id')] || [];
+      return { data: processing.map(id => ({ id, attempts: 1, max_attempts: 3, started_at: minutesAgo(5) })) };
+    }
+
+    if (query.table === 'job_queue' && query.operation === 'update' && query.values.status === 'pending') {
+      const held = state.heldJobs?.[filterValue(query, 'eq', 'worker_id')] || [];
+      return { data: held.map(id => ({ id })) };
+    }
+
+    if (query.table === 'job_queue' && query.operation === 'update' && query.values.status === 'cancelled') {
+      const cancelling = state.cancellingJobs?.[filterValue(query, 'eq', 'worker_id')] || [];
+      return { data: cancelling.map(id => ({ id })) };
+    }
+    return undefined;
+  });
+
+  return { ...stub, reaper: new WorkerReaper(stub.client) };
+}
+
+const jobUpdates = (queries: RecordedQuery[]) =>
+  queries.filter(query => query.table === 'job_queue' && query.operation === 'update');
+
+describe('WorkerReaper', () => {
+  describe('reapStaleWorkers', () => {
+    it('marks workers that stopped sending heartbeats offline and requeues their jobs', async () => {
+      const { reaper, queries } = createReaper({
+        staleWorkerIds: ['worker-a'],
+        heldJobs: { 'worker-a': ['job-1', 'job-2'] }
+      });
+
+      const reaped = await reaper.reapStaleWorkers();
+
+      expect(reaped).toEqual(['worker-a']);
+      const offline = queries.find(query => query.table === 'workers' && query.operation === 'update');
+      expect(offline?.values).toEqual({ status: 'offline', current_job_count: 0 });
+      expect(filterValue(offline!, 'neq', 'status')).toBe('offline');
+      const [requeue] = jobUpdates(queries);
+      expect(filterValue(requeue, 'eq', 'worker_id')).toBe('worker-a');
+    });
+
+    it('looks for stale workers other than itself, past the heartbeat cutoff', async () => {
+      const config = Config.getInstance();
+      const { reaper, queries } = createReaper();
+      const before = Date.now();
+
+      await reaper.reapStaleWorkers();
+
+      const [lookup] = queries;
+      expect(filterValue(lookup, 'neq', 'id')).toBe(config.workerId);
+      const cutoff = new Date(filterValue(lookup, 'lt', 'last_heartbeat')).getTime();
+      expect(cutoff).toBeLessThanOrEqual(before - config.workerStaleHeartbeats * config.heartbeatIntervalSeconds * 1000);
+    });
+
+    it('leaves workers another reaper got to first', async () => {
+      const { reaper, queries } = createReaper({ staleWorkerIds: ['worker-a'], reapedElsewhere: ['worker-a'] });
+
+      await expect(reaper.reapStaleWorkers()).resolves.toEqual([]);
+      expect(jobUpdates(queries)).toEqual([]);
+    });
+
+    it('deletes workers that have been offline for a week', async () => {
+      const { reaper, queries } = createReaper();
+
+      await reaper.reapStaleWorkers();
+
+      const cleanup = queries.find(query => query.table === 'workers' && query.operation === 'delete');
+      expect(filterValue(cleanup!, 'eq', 'status')).toBe('offline');
+      const cutoff = new Date(filterValue(cleanup!, 'lt', 'last_heartbeat')).getTime();
+      expect(Date.now() - cutoff).toBeGreaterThanOrEqual(7 * 24 * 60 * 60 * 1000 - 1000);
+    });
+  });
+
+  describe('requeueJobsOf', () => {
+    it('puts the worker\'s claimed and processing jobs back to pending', async () => {
+      const { reaper, queries } = createReaper({ heldJobs: { 'worker-a': ['job-1'] } });
+
+      await expect(reaper.requeueJobsOf('worker-a')).resolves.toEqual(['job-1']);
+
+      const [requeue] = jobUpdates(queries);
+      expect(requeue.values).toEqual({ status: 'pending', worker_id: null, claimed_at: null, claim_expires_at: null, started_at: null });
+      expect(filterValue(requeue, 'in', 'status')).toEqual(['claimed', 'processing']);
+    });
+
+    it('cancels the jobs whose cancellation the worker never finished', async () => {
+      const { reaper, queries } = createReaper();
+
+      await reaper.requeueJobsOf('worker-a');
+
+      const cancel = jobUpdates(queries).find(query => query.values.status === 'cancelled');
+      expect(filterValue(cancel!, 'eq', 'worker_id')).toBe('worker-a');
+      expect(filterValue(cancel!, 'eq', 'status')).toBe('cancelling');
+      expect(queries.some(query => query.table === 'review_sync_jobs')).toBe(false);
+    });
+
+    it('cancels the sync jobs of the jobs it cancels', async () => {
+      const { reaper, queries } = createReaper({ cancellingJobs: { 'worker-a': ['job-1', 'job-2'] } });
+
+      await reaper.requeueJobsOf('worker-a');
+
+      const syncJobs = queries.find(query => query.table === 'review_sync_jobs');
+      expect(syncJobs?.operation).toBe('update');
+      expect(syncJobs?.values).toMatchObject({ status: 'cancelled', processing_stage: 'cancelled' });
+      expect(filterValue(syncJobs!, 'in', 'queue_job_id')).toEqual(['job-1', 'job-2']);
+    });
+
+    it('records a crash for each job the worker was processing', async () => {
+      const recordCrash = jest.spyOn(JobRetryScheduler.prototype, 'recordCrash').mockResolvedValue(null);
+      const quarantine = jest.spyOn(JobRetryScheduler.prototype, 'quarantine').mockResolvedValue();
+      const { reaper, queries } = createReaper({ processingJobs: { 'worker-a': ['job-1', 'job-2'] } });
+
+      await reaper.requeueJobsOf('worker-a');
+
+      expect(recordCrash.mock.calls.map(([job, workerId]) => [job.id, workerId])).toEqual([['job-1', 'worker-a'], ['job-2', 'worker-a']]);
+      expect(quarantine).not.toHaveBeenCalled();
+      const lookup = queries.find(query => query.table === 'job_queue' && query.operation === 'select');
+      expect(filterValue(lookup!, 'eq', 'status')).toBe('processing');
+      expect(lookup?.columns).toContain('max_attempts');
+    });
+
+    it('quarantines the jobs that crashed on too many workers', async () => {
+      const poison = new PoisonJobError('job-1', ['worker-a', 'worker-b', 'worker-c']);
+      jest.spyOn(JobRetryScheduler.prototype, 'recordCrash').mockResolvedValue(poison);
+      const quarantine = jest.spyOn(JobRetryScheduler.prototype, 'quarantine').mockResolvedValue();
+      const { reaper } = createReaper({ processingJobs: { 'worker-a': ['job-1'] } });
+
+      await reaper.requeueJobsOf('worker-a');
+
+      expect(quarantine).toHaveBeenCalledWith('job-1', poison);
+    });
+  });
+});
@@ -0,0 +1,9 @@
+// Config validates these on first use; tests never reach the real services
+process.env.SUPABASE_URL = 'https://project.supabase.co';
+process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-role-key';
+process.env.DATAFORSEO_USERNAME = 'test-user';
+process.env.DATAFORSEO_PASSWORD = 'test-password';
+process.env.QUEUE_BACKEND = 'supabase';
+process.env.LOG_LEVEL = 'error';
+// Jest sets NODE_ENV=test, which Config doesn't accept
+process.env.NODE_ENV = 'development';
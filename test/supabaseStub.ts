@@ -0,0 +1,71 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type QueryOperation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+export interface RecordedQuery {
+  table: string;
+  operation: QueryOperation;
+  // Columns of a select, or the columns an insert or update returns
+  columns: string | undefined;
+  values: any;
+  filters: Array<{ method: string; args: any[] }>;
+}
+
+export interface QueryResult {
+  data?: any;
+  error?: { message: string; code?: string } | null;
+  count?: number | null;
+}
+
+const WRITE_OPERATIONS: QueryOperation[] = ['insert', 'update', 'upsert', 'delete'];
+
+/**
+ * A SupabaseClient whose query builders record every call and resolve with whatever
+ * respond returns for the finished query; unanswered queries resolve with no data.
+ */
+export function createSupabaseStub(respond: (query: RecordedQuery) => QueryResult | undefined = () => undefined) {
+  const queries: RecordedQuery[] = [];
+
+  const from = (table: string) => {
+    const query: RecordedQuery = { table, operation: 'select', columns: undefined, values: undefined, filters: [] };
+    queries.push(query);
+
+    const builder: any = new Proxy({}, {
+      get(_, method: string) {
+        if (method === 'then') {
+          return (resolve: (value: any) => any, reject: (reason: any) => any) =>
+            Promise.resolve()
+              .then(() => ({ data: null, error: null, ...respond(query) }))
+              .then(resolve, reject);
+        }
+
+        return (...args: any[]) => {
+          if (method === 'select') {
+            query.columns = args[0];
+          } else if ((WRITE_OPERATIONS as string[]).includes(method)) {
+            query.operation = method as QueryOperation;
+            query.values = args[0];
+          } else {
+            query.filters.push({ method, args });
+          }
+          return builder;
+        };
+      }
+    });
+
+    return builder;
+  };
+
+  const auth = {
+    getUser: jest.fn()
+  };
+
+  const client = { from, auth, rpc: jest.fn() } as unknown as SupabaseClient;
+  return { client, auth, queries };
+}
+
+/** The value a query was filtered on with method, e.g. filterValue(query, 'eq', 'status'). */
+export function filterValue(query: RecordedQuery, method: string, column: string): any {
+  const filter = query.filters.find(entry => entry.method === method && entry.args[0] === column);
+  return filter?.args[1];
+}
@@ -0,0 +1,61 @@
+import { GooglePlaceResolver } from '../../src/utils/GooglePlaceResolver';
+
+const PLACE_ID = 'ChIJN1t_tDeuEmsRUsoyG83frY4';
+
+describe('GooglePlaceResolver', () => {
+  describe('resolve', () => {
+    it('prefers an explicit place_id and keeps the URL as source', () => {
+      expect(GooglePlaceResolver.resolve({ place_id: PLACE_ID, url: 'https://maps.google.com/?cid=123' }))
+        .toEqual({ placeId: PLACE_ID, sourceUrl: 'https://maps.google.com/?cid=123' });
+    });
+
+    it('rejects a malformed place_id', () => {
+      expect(GooglePlaceResolver.resolve({ place_id: 'not an id' })).toBeNull();
+    });
+
+    it('accepts a numeric CID', () => {
+      expect(GooglePlaceResolver.resolve({ cid: '12345678901234567890' })).toEqual({ cid: '12345678901234567890' });
+      expect(GooglePlaceResolver.resolve({ cid: '12ab' })).toBeNull();
+    });
+
+    it('returns null without any input', () => {
+      expect(GooglePlaceResolver.resolve({})).toBeNull();
+    });
+  });
+
+  describe('fromMapsUrl', () => {
+    it('reads the cid parameter', () => {
+      const url = 'https://maps.google.com/?cid=1234567890';
+      expect(GooglePlaceResolver.fromMapsUrl(url)).toEqual({ cid: '1234567890', sourceUrl: url });
+    });
+
+    it('reads query_place_id and place_id: queries', () => {
+      const queryPlaceIdUrl = `https://www.google.com/maps/search/?api=1&query=Tour&query_place_id=${PLACE_ID}`;
+      const placeIdQueryUrl = `https://www.google.com/maps/search/?q=place_id%3A${PLACE_ID}`;
+
+      expect(GooglePlaceResolver.fromMapsUrl(queryPlaceIdUrl)).toEqual({ placeId: PLACE_ID, sourceUrl: queryPlaceIdUrl });
+      expect(GooglePlaceResolver.fromMapsUrl(placeIdQueryUrl)).toEqual({ placeId: PLACE_ID, sourceUrl: placeIdQueryUrl });
+    });
+
+    it('derives the CID from the feature id of a place URL', () => {
+      const url = 'https://www.google.com/maps/place/Tour/@36.1,-115.1,17z/data=!4m6!3m5!1s0x80c8c4:0x1a2b3c!8m2';
+      expect(GooglePlaceResolver.fromMapsUrl(url)).toEqual({ cid: String(0x1a2b3c), sourceUrl: url });
+    });
+
+    it('ignores hosts other than Google', () => {
+      expect(GooglePlaceResolver.fromMapsUrl('https://maps.example.com/?cid=1234567890')).toBeNull();
+      expect(GooglePlaceResolver.fromMapsUrl('https://notgoogle.com/?cid=1234567890')).toBeNull();
+    });
+
+    it('returns null for strings that aren\'t URLs', () => {
+      expect(GooglePlaceResolver.fromMapsUrl('not a url')).toBeNull();
+    });
+
+    it('treats a malformed percent-escape as no place_id match', () => {
+      expect(GooglePlaceResolver.fromMapsUrl('https://www.google.com/maps/search/?q=%E0%A4%A')).toBeNull();
+
+      const url = 'https://www.google.com/maps/place/%E0%A4%A/data=!1s0x80c8c4:0x1a2b3c';
+      expect(GooglePlaceResolver.fromMapsUrl(url)).toEqual({ cid: String(0x1a2b3c), sourceUrl: url });
+    });
+  });
+});
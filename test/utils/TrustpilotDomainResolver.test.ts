@@ -0,0 +1,33 @@
+import { TrustpilotDomainResolver } from '../../src/utils/TrustpilotDomainResolver';
+
+describe('TrustpilotDomainResolver', () => {
+  it('reads the domain from a review page URL', () => {
+    const url = 'https://www.trustpilot.com/review/Example.com?page=2';
+    expect(TrustpilotDomainResolver.resolve(url)).toEqual({ domain: 'example.com', sourceUrl: url });
+  });
+
+  it('decodes percent-escaped domains', () => {
+    expect(TrustpilotDomainResolver.resolve('https://www.trustpilot.com/review/tours%2Dexample.co.uk')?.domain)
+      .toBe('tours-example.co.uk');
+  });
+
+  it('builds the review page URL for a bare domain', () => {
+    expect(TrustpilotDomainResolver.resolve(' https://Example.com/about ')).toEqual({
+      domain: 'example.com',
+      sourceUrl: 'https://www.trustpilot.com/review/example.com'
+    });
+  });
+
+  it('returns null for Trustpilot URLs without a business', () => {
+    expect(TrustpilotDomainResolver.resolve('https://www.trustpilot.com/categories/travel')).toBeNull();
+    expect(TrustpilotDomainResolver.resolve('https://www.trustpilot.com/review/not-a-domain')).toBeNull();
+  });
+
+  it('returns null for input that isn\'t a domain', () => {
+    expect(TrustpilotDomainResolver.resolve('my tour company')).toBeNull();
+  });
+
+  it('returns null for a malformed percent-escape', () => {
+    expect(TrustpilotDomainResolver.resolve('https://www.trustpilot.com/review/%E0%A4%A')).toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+import { YelpAliasResolver } from '../../src/utils/YelpAliasResolver';
+
+describe('YelpAliasResolver', () => {
+  it('reads the alias from a business page URL', () => {
+    const url = 'https://www.yelp.com/biz/grand-canyon-tours-las-vegas?osq=tours';
+    expect(YelpAliasResolver.resolve(url)).toEqual({ alias: 'grand-canyon-tours-las-vegas', sourceUrl: url });
+  });
+
+  it('accepts country domains and decodes non-ASCII aliases', () => {
+    const url = 'https://www.yelp.de/biz/m%C3%BCnchen-stadtf%C3%BChrung-m%C3%BCnchen';
+    expect(YelpAliasResolver.resolve(url)?.alias).toBe('münchen-stadtführung-münchen');
+  });
+
+  it('builds the business page URL for a bare alias', () => {
+    expect(YelpAliasResolver.resolve('grand-canyon-tours-las-vegas')).toEqual({
+      alias: 'grand-canyon-tours-las-vegas',
+      sourceUrl: 'https://www.yelp.com/biz/grand-canyon-tours-las-vegas'
+    });
+  });
+
+  it('returns null for Yelp URLs without a business', () => {
+    expect(YelpAliasResolver.resolve('https://www.yelp.com/search?find_desc=tours')).toBeNull();
+  });
+
+  it('returns null for input that isn\'t an alias', () => {
+    expect(YelpAliasResolver.resolve('tours')).toBeNull();
+    expect(YelpAliasResolver.resolve('grand canyon tours')).toBeNull();
+  });
+
+  it('returns null for a malformed percent-escape', () => {
+    expect(YelpAliasResolver.resolve('https://www.yelp.com/biz/tours-%E0%A4%A')).toBeNull();
+  });
+});